@@ -7,8 +7,7 @@ async function run() {
     displayName: `SDK Tenant Demo ${Date.now()}`,
   });
 
-  const createdAppId =
-    String((app as any)?.app?._id || (app as any)?.result?._id || (app as any)?._id || '');
+  const createdAppId = app.app.id;
   if (!createdAppId) {
     throw new Error(`Missing app id in response: ${JSON.stringify(app, null, 2)}`);
   }
@@ -5,8 +5,12 @@
  */
 
 import express, { Request, Response } from 'express';
-import { getEthoraSDKService } from '../src/index';
-import axios from 'axios';
+import {
+  getEthoraSDKService,
+  EthoraApiError,
+  EthoraConflictError,
+  EthoraNotFoundError,
+} from '../src/index';
 
 const app = express();
 app.use(express.json());
@@ -24,10 +28,12 @@ app.post('/workspaces/:workspaceId/chat', async (req: Request, res: Response) =>
     const response = await chatRepo.createChatRoom(workspaceId, roomData);
     res.json({ success: true, data: response });
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      res.status(error.response?.status || 500).json({
+    if (error instanceof EthoraConflictError) {
+      res.status(409).json({ error: 'Chat room already exists' });
+    } else if (error instanceof EthoraApiError) {
+      res.status(error.status || 502).json({
         error: 'Failed to create chat room',
-        details: error.response?.data,
+        details: error.body,
       });
     } else {
       res.status(500).json({ error: 'Internal server error' });
@@ -46,10 +52,12 @@ app.post('/users/:userId', async (req: Request, res: Response) => {
     const response = await chatRepo.createUser(userId, userData);
     res.json({ success: true, data: response });
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      res.status(error.response?.status || 500).json({
+    if (error instanceof EthoraConflictError) {
+      res.status(409).json({ error: 'User already exists' });
+    } else if (error instanceof EthoraApiError) {
+      res.status(error.status || 502).json({
         error: 'Failed to create user',
-        details: error.response?.data,
+        details: error.body,
       });
     } else {
       res.status(500).json({ error: 'Internal server error' });
@@ -69,10 +77,12 @@ app.post(
       await chatRepo.grantUserAccessToChatRoom(workspaceId, userId);
       res.json({ success: true, message: 'Access granted' });
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        res.status(error.response?.status || 500).json({
+      if (error instanceof EthoraNotFoundError) {
+        res.status(404).json({ error: 'Chat room or user not found' });
+      } else if (error instanceof EthoraApiError) {
+        res.status(error.status || 502).json({
           error: 'Failed to grant access',
-          details: error.response?.data,
+          details: error.body,
         });
       } else {
         res.status(500).json({ error: 'Internal server error' });
@@ -108,10 +118,10 @@ app.delete('/workspaces/:workspaceId/chat', async (req: Request, res: Response)
       res.json({ success: true, data: response });
     }
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      res.status(error.response?.status || 500).json({
+    if (error instanceof EthoraApiError) {
+      res.status(error.status || 502).json({
         error: 'Failed to delete chat room',
-        details: error.response?.data,
+        details: error.body,
       });
     } else {
       res.status(500).json({ error: 'Internal server error' });
@@ -133,10 +143,10 @@ app.delete('/users', async (req: Request, res: Response) => {
     const response = await chatRepo.deleteUsers(userIds);
     res.json({ success: true, data: response });
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      res.status(error.response?.status || 500).json({
+    if (error instanceof EthoraApiError) {
+      res.status(error.status || 502).json({
         error: 'Failed to delete users',
-        details: error.response?.data,
+        details: error.body,
       });
     } else {
       res.status(500).json({ error: 'Internal server error' });
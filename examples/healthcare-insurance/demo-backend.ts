@@ -28,7 +28,11 @@ import { config as loadEnv } from "dotenv";
 import express, { Request, Response } from "express";
 import cors from "cors";
 import axios from "axios";
-import { getEthoraSDKService } from "../../src";
+import {
+  getEthoraSDKService,
+  EthoraApiError,
+  EthoraConflictError,
+} from "../../src";
 import { getSecrets } from "../../src/config/secrets";
 import { createServerToken, createClientToken } from "../../src/utils/jwt";
 import { getFileLogger } from "./file-logger";
@@ -724,27 +728,13 @@ app.post("/cases", async (req: Request, res: Response) => {
           logger.success(`Chat room created`, { caseId, result: roomResult });
         } catch (error) {
           // If room already exists, that's okay - continue
-          if (axios.isAxiosError(error) && error.response?.status === 422) {
-            const errorData = error.response?.data;
-            const errorMessage =
-              typeof errorData === "object" && errorData !== null
-                ? (errorData as { error?: string }).error || ""
-                : String(errorData || "");
-
-            if (
-              errorMessage.includes("already exist") ||
-              errorMessage.includes("already exists")
-            ) {
-              logger.warn(
-                `Chat room for case ${caseId} already exists, continuing...`,
-                {
-                  caseId,
-                }
-              );
-            } else {
-              logger.error(`Failed to create chat room`, error, { caseId });
-              throw error;
-            }
+          if (error instanceof EthoraConflictError) {
+            logger.warn(
+              `Chat room for case ${caseId} already exists, continuing...`,
+              {
+                caseId,
+              }
+            );
           } else {
             logger.error(`Failed to create chat room`, error, { caseId });
             throw error;
@@ -843,6 +833,25 @@ app.post("/cases", async (req: Request, res: Response) => {
       console.error("Failed to create case", error);
 
       // Provide detailed error information
+      if (error instanceof EthoraApiError) {
+        const status = error.status || 502;
+
+        console.error("API Error Details:", {
+          status,
+          message: error.message,
+          data: error.body,
+          url: error.url,
+          method: error.method,
+          requestId: error.requestId,
+        });
+
+        return res.status(status).json({
+          error: "Failed to create case",
+          details: error.body || error.message,
+          status,
+        });
+      }
+
       if (axios.isAxiosError(error)) {
         const status = error.response?.status || 500;
         const errorData = error.response?.data;
@@ -4,6 +4,8 @@
  * @format
  */
 
+import { getDefaultKeyring, JwtKeyring } from "../utils/keyring";
+
 /**
  * Secrets configuration interface
  */
@@ -14,6 +16,11 @@ export interface Secrets {
   chatAppId: string;
   /** Secret key for JWT token generation */
   chatAppSecret: string;
+  /**
+   * Rotating signing keys. Tokens are signed with the active key and a `kid`
+   * header, or with `chatAppSecret` while no key is active
+   */
+  keyring?: JwtKeyring;
 }
 
 /**
@@ -52,15 +59,23 @@ export const ETHORA_JID_DOMAIN = "@conference.xmpp.chat.ethora.com";
 export function getSecretsSync(overrides?: Partial<Secrets>): Secrets {
   const chatApiUrl = process.env.ETHORA_CHAT_API_URL;
   const chatAppId = overrides?.chatAppId || process.env.ETHORA_CHAT_APP_ID;
+  // The process-wide env keyring signs only for the env-configured secret; an
+  // instance with its own secret gets its own keyring, so tokens are signed
+  // with that secret and rotating one instance's keys leaves the others alone
+  const keyring =
+    overrides?.keyring || (overrides?.chatAppSecret ? new JwtKeyring() : getDefaultKeyring());
+  // With only ETHORA_CHAT_APP_SECRETS set, tokens without `kid` use the active key
   const chatAppSecret =
-    overrides?.chatAppSecret || process.env.ETHORA_CHAT_APP_SECRET;
+    overrides?.chatAppSecret ||
+    process.env.ETHORA_CHAT_APP_SECRET ||
+    keyring.getActiveKey()?.secret;
 
   if (!chatApiUrl || !chatAppId || !chatAppSecret) {
     throw new Error(
       "Missing required Ethora configuration. Please set the following environment variables:\n" +
         "- ETHORA_CHAT_API_URL\n" +
         "- ETHORA_CHAT_APP_ID\n" +
-        "- ETHORA_CHAT_APP_SECRET"
+        "- ETHORA_CHAT_APP_SECRET (or ETHORA_CHAT_APP_SECRETS)"
     );
   }
 
@@ -68,6 +83,7 @@ export function getSecretsSync(overrides?: Partial<Secrets>): Secrets {
     chatApiUrl,
     chatAppId,
     chatAppSecret,
+    keyring,
   };
 }
 
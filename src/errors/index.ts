@@ -0,0 +1,383 @@
+/**
+ * Error types thrown by the Ethora SDK
+ *
+ * Every failure surfaced by a `ChatRepository` method is an instance of
+ * `EthoraApiError` (or one of its subclasses), so callers can branch on
+ * `instanceof` instead of inspecting message strings or transport errors.
+ *
+ * @format
+ */
+
+import type { BatchJob, BroadcastJob, BulkReport, SagaStepRecord } from '../types';
+
+/**
+ * A single invalid field reported by the API or by local validation
+ */
+export interface EthoraFieldError {
+  /** Dotted path of the offending field (e.g. `usersList.0.email`) */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Request context attached to every SDK error
+ */
+export interface EthoraErrorContext {
+  /** HTTP method of the failed request */
+  method?: string;
+  /** Full URL of the failed request */
+  url?: string;
+  /** HTTP status code, if a response was received */
+  status?: number;
+  /** Parsed response body, if a response was received */
+  body?: unknown;
+  /** Request ID echoed by the server or generated by the SDK */
+  requestId?: string;
+  /** Underlying error that caused this one */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors raised by the SDK
+ */
+export class EthoraApiError extends Error {
+  readonly method: string;
+  readonly url: string;
+  readonly status?: number;
+  readonly body?: unknown;
+  readonly requestId?: string;
+  readonly cause?: unknown;
+  /** Number of attempts made before giving up (greater than 1 when retried) */
+  attempts: number;
+
+  constructor(message: string, context: EthoraErrorContext = {}) {
+    super(message);
+    this.name = 'EthoraApiError';
+    this.method = context.method || 'UNKNOWN';
+    this.url = context.url || '';
+    this.status = context.status;
+    this.body = context.body;
+    this.requestId = context.requestId;
+    this.cause = context.cause;
+    this.attempts = 1;
+  }
+}
+
+/**
+ * Authentication or authorization failure (401/403)
+ */
+export class EthoraAuthError extends EthoraApiError {
+  constructor(message: string, context: EthoraErrorContext = {}) {
+    super(message, context);
+    this.name = 'EthoraAuthError';
+  }
+}
+
+/**
+ * The requested resource does not exist (404, or 422 "not found")
+ */
+export class EthoraNotFoundError extends EthoraApiError {
+  constructor(message: string, context: EthoraErrorContext = {}) {
+    super(message, context);
+    this.name = 'EthoraNotFoundError';
+  }
+}
+
+/**
+ * The resource already exists (409, or 422 "already exists")
+ */
+export class EthoraConflictError extends EthoraApiError {
+  constructor(message: string, context: EthoraErrorContext = {}) {
+    super(message, context);
+    this.name = 'EthoraConflictError';
+  }
+}
+
+/**
+ * The request payload was rejected (400/422), either by the API or locally
+ */
+export class EthoraValidationError extends EthoraApiError {
+  readonly fields: EthoraFieldError[];
+
+  constructor(
+    message: string,
+    context: EthoraErrorContext & { fields?: EthoraFieldError[] } = {},
+  ) {
+    super(message, context);
+    this.name = 'EthoraValidationError';
+    this.fields = context.fields || [];
+  }
+}
+
+/**
+ * The API throttled the request (429)
+ */
+export class EthoraRateLimitError extends EthoraApiError {
+  /** Delay suggested by the `Retry-After` header, in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    context: EthoraErrorContext & { retryAfterMs?: number } = {},
+  ) {
+    super(message, context);
+    this.name = 'EthoraRateLimitError';
+    this.retryAfterMs = context.retryAfterMs;
+  }
+}
+
+/**
+ * No response was received (DNS failure, connection reset, etc.)
+ */
+export class EthoraNetworkError extends EthoraApiError {
+  constructor(message: string, context: EthoraErrorContext = {}) {
+    super(message, context);
+    this.name = 'EthoraNetworkError';
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class EthoraTimeoutError extends EthoraNetworkError {
+  constructor(message: string, context: EthoraErrorContext = {}) {
+    super(message, context);
+    this.name = 'EthoraTimeoutError';
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class EthoraAbortError extends EthoraApiError {
+  constructor(message: string, context: EthoraErrorContext = {}) {
+    super(message, context);
+    this.name = 'EthoraAbortError';
+  }
+}
+
+/**
+ * The circuit breaker is open and the request was not sent
+ */
+export class EthoraCircuitOpenError extends EthoraApiError {
+  /** Time until the breaker allows a trial request, in milliseconds */
+  readonly retryAfterMs: number;
+
+  constructor(
+    message: string,
+    context: EthoraErrorContext & { retryAfterMs?: number } = {},
+  ) {
+    super(message, context);
+    this.name = 'EthoraCircuitOpenError';
+    this.retryAfterMs = context.retryAfterMs ?? 0;
+  }
+}
+
+/**
+ * A successful response did not match the expected schema (strict response validation)
+ */
+export class EthoraResponseValidationError extends EthoraApiError {
+  /** Every path that failed validation */
+  readonly fields: EthoraFieldError[];
+
+  constructor(
+    message: string,
+    context: EthoraErrorContext & { fields?: EthoraFieldError[] } = {},
+  ) {
+    super(message, context);
+    this.name = 'EthoraResponseValidationError';
+    this.fields = context.fields || [];
+  }
+}
+
+/**
+ * An asynchronous job (broadcast, batch user creation) finished in a failed state
+ */
+export class EthoraJobFailedError extends EthoraApiError {
+  /** Last observed state of the job */
+  readonly job: BatchJob | BroadcastJob;
+
+  constructor(
+    message: string,
+    context: EthoraErrorContext & { job: BatchJob | BroadcastJob },
+  ) {
+    super(message, context);
+    this.name = 'EthoraJobFailedError';
+    this.job = context.job;
+  }
+}
+
+/**
+ * An asynchronous job did not reach a terminal state before the polling timeout
+ */
+export class EthoraJobTimeoutError extends EthoraApiError {
+  /** Last observed state of the job */
+  readonly job: BatchJob | BroadcastJob;
+
+  constructor(
+    message: string,
+    context: EthoraErrorContext & { job: BatchJob | BroadcastJob },
+  ) {
+    super(message, context);
+    this.name = 'EthoraJobTimeoutError';
+    this.job = context.job;
+  }
+}
+
+/**
+ * A resumable bulk operation stopped at a failed chunk (`continueOnError` disabled)
+ */
+export class EthoraBulkOperationError extends EthoraApiError {
+  /** Progress up to the failure; pass it as `resumeFrom` to continue */
+  readonly report: BulkReport;
+
+  constructor(message: string, context: EthoraErrorContext & { report: BulkReport }) {
+    super(message, context);
+    this.name = 'EthoraBulkOperationError';
+    this.report = context.report;
+  }
+}
+
+/**
+ * A step of a multi-step operation failed; completed steps were compensated
+ * unless compensation was disabled
+ */
+export class EthoraSagaError extends EthoraApiError {
+  /** Journal of the run, including compensation outcomes */
+  readonly steps: SagaStepRecord[];
+
+  constructor(message: string, context: EthoraErrorContext & { steps: SagaStepRecord[] }) {
+    super(message, context);
+    this.name = 'EthoraSagaError';
+    this.steps = context.steps;
+  }
+}
+
+/**
+ * Parses a `Retry-After` header value (delta-seconds or HTTP date)
+ *
+ * @param value - Raw header value
+ * @returns Delay in milliseconds, or undefined if the header is absent or invalid
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Extracts a human-readable message from an API error body
+ */
+function extractErrorMessage(body: unknown): string {
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (body && typeof body === 'object') {
+    const record = body as Record<string, unknown>;
+    for (const key of ['error', 'message', 'reason']) {
+      if (typeof record[key] === 'string') {
+        return record[key] as string;
+      }
+    }
+  }
+  return '';
+}
+
+/**
+ * Extracts per-field validation details from an API error body
+ *
+ * Understands the shapes produced by express-validator (`errors: [{ path, msg }]`),
+ * Joi (`details: [{ path, message }]`) and plain `errors: { field: message }` maps.
+ */
+function extractFieldErrors(body: unknown): EthoraFieldError[] {
+  if (!body || typeof body !== 'object') {
+    return [];
+  }
+
+  const record = body as Record<string, unknown>;
+  const list = Array.isArray(record.errors)
+    ? record.errors
+    : Array.isArray(record.details)
+      ? record.details
+      : undefined;
+
+  if (list) {
+    return list
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+      .map((item) => {
+        const rawPath = item.path ?? item.param ?? item.field ?? '';
+        return {
+          path: Array.isArray(rawPath) ? rawPath.join('.') : String(rawPath),
+          message: String(item.msg ?? item.message ?? 'Invalid value'),
+        };
+      });
+  }
+
+  if (record.errors && typeof record.errors === 'object') {
+    return Object.entries(record.errors as Record<string, unknown>).map(
+      ([path, message]) => ({ path, message: String(message) }),
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Builds the appropriate error subclass for an HTTP error response
+ *
+ * @param context - Request context, including the response status and body
+ * @param retryAfter - Raw `Retry-After` header value, if present
+ * @returns The typed SDK error
+ */
+export function createEthoraApiError(
+  context: EthoraErrorContext & { status: number },
+  retryAfter?: unknown,
+): EthoraApiError {
+  const { method = 'UNKNOWN', url = '', status, body } = context;
+  const detail = extractErrorMessage(body);
+  const normalized = detail.toLowerCase();
+  const message =
+    `[${method}] ${url} failed with status ${status}` + (detail ? `: ${detail}` : '');
+
+  if (status === 401 || status === 403) {
+    return new EthoraAuthError(message, context);
+  }
+  if (status === 404) {
+    return new EthoraNotFoundError(message, context);
+  }
+  if (status === 409) {
+    return new EthoraConflictError(message, context);
+  }
+  if (status === 429) {
+    return new EthoraRateLimitError(message, {
+      ...context,
+      retryAfterMs: parseRetryAfter(retryAfter),
+    });
+  }
+  if (status === 400 || status === 422) {
+    // Ethora reports duplicate and missing resources as 422 with a text body
+    if (normalized.includes('already exist')) {
+      return new EthoraConflictError(message, context);
+    }
+    if (normalized.includes('not found')) {
+      return new EthoraNotFoundError(message, context);
+    }
+    return new EthoraValidationError(message, {
+      ...context,
+      fields: extractFieldErrors(body),
+    });
+  }
+  return new EthoraApiError(message, context);
+}
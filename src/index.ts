@@ -10,16 +10,40 @@
 // Export types
 export * from "./types";
 
+// Export errors
+export * from "./errors";
+
 // Export configuration
 export * from "./config/secrets";
 
 // Export utilities
 export * from "./utils/logger";
+export * from "./utils/logAdapters";
+export * from "./utils/redaction";
 export * from "./utils/jwt";
+export * from "./utils/keyring";
+export * from "./utils/retry";
+export * from "./utils/rateLimiter";
+export * from "./utils/circuitBreaker";
+export * from "./utils/normalize";
+export * from "./utils/responseModels";
+export * from "./utils/requestSchemas";
+export * from "./utils/schema";
+export * from "./utils/pagination";
+export * from "./utils/polling";
+export * from "./utils/bulk";
+export * from "./utils/saga";
+export * from "./utils/manifest";
+export * from "./utils/snapshot";
+
+// Export transports
+export * from "./transports/AxiosTransport";
+export * from "./transports/FetchTransport";
 
 // Export repositories
 export {
   EthoraSDKService,
   getEthoraSDKService,
 } from "./repositories/EthoraSDKService";
+export type { EthoraSDKServiceConfig } from "./repositories/EthoraSDKService";
 export type { ChatRepository } from "./types";
@@ -8,8 +8,8 @@
  * @format
  */
 
-import { randomUUID } from 'crypto';
-import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { randomBytes, randomUUID } from 'crypto';
+import type { AxiosInstance } from 'axios';
 import type {
   UUID,
   ChatRepository,
@@ -30,39 +30,321 @@ import type {
   UpdateAppBotRequest,
   CreateAppBroadcastRequest,
   ListAppChatsQueryParams,
+  RequestOptions,
+  Transport,
+  TransportResponse,
+  HookContext,
+  HookRequest,
+  OnRequestHook,
+  OnResponseHook,
+  OnErrorHook,
+  App,
+  AppResponse,
+  AppSnapshot,
+  AppToken,
+  AppTokenResponse,
+  BatchJobResponse,
+  BroadcastJob,
+  BroadcastJobResponse,
+  BulkOptions,
+  BulkReport,
+  BroadcastProgress,
+  ChatRoom,
+  ChatRoomResponse,
+  ChatUser,
+  ChatUserResponse,
+  CreateUsersBulkOptions,
+  EnsureOptions,
+  EnsureResult,
+  ImportAppOptions,
+  PaginatedResponse,
+  PaginationOptions,
+  ProvisionAppResponse,
+  ProvisionWorkspaceOptions,
+  ProvisionWorkspaceRequest,
+  ProvisionWorkspaceResult,
+  ResumableBulkOptions,
+  RoomAccess,
+  RoomMembersSyncReport,
+  SagaStepOutput,
+  SnapshotUser,
+  SyncRoomMembersOptions,
+  TenantApplyResult,
+  TenantChange,
+  TenantManifest,
+  TenantManifestApp,
+  TenantManifestRoom,
+  TenantPlan,
+  TenantPlanOptions,
+  TenantResource,
+  TokenConfig,
+  TokenOptions,
+  UpdateUserResult,
+  UpdateUsersBulkReport,
+  UpdateUsersResponse,
+  UserBatchResult,
+  UsersBatchJobResult,
+  WaitForBroadcastJobOptions,
+  WaitForUsersBatchJobOptions,
 } from '../types';
 import {
   getSecrets,
   Secrets,
+  TimeoutConfig,
   DEFAULT_TIMEOUT,
   ETHORA_JID_DOMAIN,
 } from '../config/secrets';
 import { createServerToken, createClientToken } from '../utils/jwt';
-import { getLogger } from '../utils/logger';
+import { JwtKeyring } from '../utils/keyring';
+import { createLogger, getLogger, Logger, LoggerFactory, LogFields } from '../utils/logger';
+import { redactValue } from '../utils/redaction';
+import {
+  APP_LIST_RESPONSE,
+  APP_RESPONSE,
+  APP_TOKEN_LIST_RESPONSE,
+  APP_TOKEN_RESPONSE,
+  BATCH_JOB_RESPONSE,
+  BROADCAST_JOB_RESPONSE,
+  CHAT_ROOM_LIST_RESPONSE,
+  CHAT_ROOM_RESPONSE,
+  CHAT_USER_LIST_RESPONSE,
+  CHAT_USER_RESPONSE,
+  PROVISION_APP_RESPONSE,
+  RESPONSE_VALIDATION_MODES,
+  ResponseModel,
+  ResponseValidationMode,
+  UPDATE_USERS_RESPONSE,
+} from '../utils/responseModels';
+import {
+  APP_TOKEN_REQUEST,
+  BATCH_CREATE_USERS_REQUEST,
+  CREATE_APP_BROADCAST_REQUEST,
+  CREATE_APP_REQUEST,
+  CREATE_CHAT_ROOM_REQUEST,
+  GET_USERS_QUERY,
+  GET_USER_CHATS_QUERY,
+  GRANT_ACCESS_REQUEST,
+  LIST_APPS_QUERY,
+  LIST_APP_CHATS_QUERY,
+  PROVISION_APP_REQUEST,
+  RequestModel,
+  UPDATE_APP_BOT_REQUEST,
+  UPDATE_USERS_REQUEST,
+} from '../utils/requestSchemas';
+import { validateSchema } from '../utils/schema';
+import { chunk, mapWithConcurrency } from '../utils/bulk';
+import {
+  normalizeUserBatchResult,
+  toAppBotSettings,
+  toPaginatedResponse,
+  toUsersBatchJobResult,
+} from '../utils/normalize';
+import { collectAll, paginate } from '../utils/pagination';
+import { runSaga, SagaStep } from '../utils/saga';
+import { parseTenantManifest } from '../utils/manifest';
+import { APP_SNAPSHOT_VERSION, snapshotToManifest } from '../utils/snapshot';
+import { isJobCompleted, pollJob } from '../utils/polling';
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  computeRetryDelay,
+  isRetryableError,
+  isRetryableMethod,
+  mergeRetryPolicy,
+  sleep,
+} from '../utils/retry';
+import { RateLimiter, RateLimiterConfig, RateLimiterStats } from '../utils/rateLimiter';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitState } from '../utils/circuitBreaker';
+import { AxiosTransport } from '../transports/AxiosTransport';
+import {
+  EthoraAbortError,
+  EthoraApiError,
+  EthoraBulkOperationError,
+  EthoraConflictError,
+  EthoraErrorContext,
+  EthoraFieldError,
+  EthoraResponseValidationError,
+  EthoraNotFoundError,
+  EthoraValidationError,
+  createEthoraApiError,
+} from '../errors';
 
 const logger = getLogger('EthoraSDKService');
 
+/** Maximum number of users accepted by one `updateUsers` request */
+const MAX_USERS_PER_UPDATE = 100;
+
+/** Default number of users per request of the resumable bulk operations */
+const DEFAULT_BULK_CHUNK_SIZE = 100;
+
+/** Fields compared by `ensureUser` with `updateOnDrift` */
+const USER_DRIFT_FIELDS = ['firstName', 'lastName', 'username', 'profileImage', 'description', 'email'];
+
+/** User fields kept by `exportApp` */
+const SNAPSHOT_USER_FIELDS = [...USER_DRIFT_FIELDS, 'roles', 'tags'];
+
+/** Fields compared by `ensureChatRoom` with `updateOnDrift` */
+const ROOM_DRIFT_FIELDS = ['title', 'description'];
+
+function describeFields(fields: EthoraFieldError[]): string {
+  return fields.map((field) => `${field.path} (${field.message})`).join(', ');
+}
+
+/**
+ * Checks whether a chat room has the given (short or full) name
+ */
+function matchesChatName(chat: ChatRoom, chatName: string): boolean {
+  const shortName = chatName.split('@')[0];
+  return [chat.id, chat.name].some((name) => !!name && name.split('@')[0] === shortName);
+}
+
+/**
+ * Copies the listed fields that are set
+ */
+function pickFields(record: object, fields: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([field, value]) => fields.includes(field) && value !== undefined),
+  );
+}
+
+/**
+ * Lists the fields of `desired` whose values differ from `live`; undefined values are ignored
+ */
+function diffFields(
+  live: object,
+  desired: object,
+): Record<string, { from: unknown; to: unknown }> {
+  const diff: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, to] of Object.entries(desired)) {
+    const from = (live as Record<string, unknown>)[field];
+    if (to !== undefined && JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[field] = { from, to };
+    }
+  }
+  return diff;
+}
+
+/**
+ * EthoraSDKService configuration
+ */
+export interface EthoraSDKServiceConfig {
+  /** Overrides the app ID from the environment */
+  chatAppId?: string;
+  /** Overrides the app secret from the environment */
+  chatAppSecret?: string;
+  /** Retry policy overrides applied to every request of this instance */
+  retry?: Partial<RetryPolicy>;
+  /** Client-side rate and concurrency limits. Requests are unthrottled when omitted */
+  rateLimit?: RateLimiterConfig;
+  /** Circuit breaker settings. The breaker is disabled when omitted */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Total and connect timeouts in milliseconds. Defaults to `DEFAULT_TIMEOUT` */
+  timeout?: Partial<TimeoutConfig>;
+  /**
+   * HTTP transport to send requests through. Defaults to an `AxiosTransport`;
+   * use `FetchTransport` for edge/serverless runtimes or supply your own.
+   */
+  transport?: Transport;
+  /**
+   * Logger (or per-context logger factory) for this instance, overriding the
+   * one registered with `setLogger`. Redaction and the minimum level still apply.
+   */
+  logger?: Logger | LoggerFactory;
+  /**
+   * Runtime validation of typed responses: `off`, `warn` (log mismatches) or
+   * `strict` (reject with `EthoraResponseValidationError`). Defaults to
+   * `ETHORA_RESPONSE_VALIDATION`, or `off` when unset. Any other value makes
+   * the constructor throw.
+   */
+  responseValidation?: ResponseValidationMode;
+  /**
+   * Lifetime and registered claims of the server and client JWTs. Defaults to
+   * `DEFAULT_TOKEN_TTL` (5 minutes for server tokens, 24 hours for client tokens)
+   */
+  tokens?: TokenConfig;
+  /**
+   * Signing keys for key rotation. Defaults to the keys in
+   * `ETHORA_CHAT_APP_SECRETS` (shared with `verifyJwtToken`)
+   */
+  keyring?: JwtKeyring;
+}
+
+/**
+ * HTTP request issued by a ChatRepository method
+ */
+interface ApiRequest {
+  /** Logical operation name reported to hooks, i.e. the calling method */
+  operation: string;
+  method: string;
+  url: string;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Structured log fields of a single call
+ */
+type RequestLogFields = LogFields & { operation: string; appId: string; requestId: string };
+
 /**
  * EthoraSDKService - Concrete implementation of ChatRepository
  */
 export class EthoraSDKService implements ChatRepository {
   private readonly baseEthoraUrl: string;
   private readonly secrets: Secrets;
-  private readonly httpClient: AxiosInstance;
-
-  constructor(config?: { chatAppId?: string; chatAppSecret?: string }) {
-    this.secrets = getSecrets(config);
+  private readonly transport: Transport;
+  /** Axios instance backing the default transport (undefined for custom transports) */
+  private readonly httpClient?: AxiosInstance;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly rateLimiter: RateLimiter | null;
+  private readonly circuitBreaker: CircuitBreaker | null;
+  private readonly timeout: TimeoutConfig;
+  private readonly logger: Logger;
+  private readonly responseValidation: ResponseValidationMode;
+  private readonly tokenConfig: TokenConfig;
+  private readonly hooks: {
+    onRequest: OnRequestHook[];
+    onResponse: OnResponseHook[];
+    onError: OnErrorHook[];
+  } = { onRequest: [], onResponse: [], onError: [] };
+
+  constructor(config?: EthoraSDKServiceConfig) {
+    this.logger = config?.logger ? createLogger('EthoraSDKService', config.logger) : logger;
+    this.secrets = getSecrets(
+      config && {
+        chatAppId: config.chatAppId,
+        chatAppSecret: config.chatAppSecret,
+        keyring: config.keyring,
+      },
+    );
     this.baseEthoraUrl = this.secrets.chatApiUrl;
+    this.retryPolicy = mergeRetryPolicy(DEFAULT_RETRY_POLICY, config?.retry);
+    this.rateLimiter = config?.rateLimit ? new RateLimiter(config.rateLimit) : null;
+    this.circuitBreaker = config?.circuitBreaker
+      ? new CircuitBreaker(config.circuitBreaker)
+      : null;
+
+    this.timeout = { ...DEFAULT_TIMEOUT, ...config?.timeout };
+    this.tokenConfig = config?.tokens || {};
+    const responseValidation =
+      config?.responseValidation || process.env.ETHORA_RESPONSE_VALIDATION?.trim() || 'off';
+    if (!RESPONSE_VALIDATION_MODES.includes(responseValidation as ResponseValidationMode)) {
+      throw new Error(
+        `Unknown response validation mode '${responseValidation}': ` +
+          `expected one of ${RESPONSE_VALIDATION_MODES.join(', ')}`,
+      );
+    }
+    this.responseValidation = responseValidation as ResponseValidationMode;
 
-    // Create axios instance with default configuration
-    this.httpClient = axios.create({
-      timeout: DEFAULT_TIMEOUT.total,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    if (config?.transport) {
+      this.transport = config.transport;
+    } else {
+      const transport = new AxiosTransport({ connectTimeoutMs: this.timeout.connect });
+      this.transport = transport;
+      this.httpClient = transport.client;
+    }
 
-    logger.debug('EthoraSDKService instance initialized');
+    this.logger.debug('EthoraSDKService instance initialized');
   }
 
   /**
@@ -76,13 +358,13 @@ export class EthoraSDKService implements ChatRepository {
    * @returns The fully-qualified JID string for the chat room
    */
   createChatName(chatId: UUID, full: boolean = true): string {
-    logger.debug(`Creating chat room name (JID) for chat ID: ${chatId}`);
+    this.logger.debug(`Creating chat room name (JID) for chat ID: ${chatId}`);
 
     const chatName = full
       ? `${this.secrets.chatAppId}_${chatId}${ETHORA_JID_DOMAIN}`
       : `${this.secrets.chatAppId}_${chatId}`;
 
-    logger.info(`Chat room name created: '${chatName}'`);
+    this.logger.info(`Chat room name created: '${chatName}'`);
     return chatName;
   }
 
@@ -93,12 +375,16 @@ export class EthoraSDKService implements ChatRepository {
    * authentication with the chat service. The token payload includes the
    * user's ID and the app ID.
    *
+   * The token expires after the configured client TTL (24 hours by default);
+   * pass `expiresIn` to issue shorter-lived tokens that the frontend refreshes.
+   *
    * @param userId - The unique identifier of the user
+   * @param options - Overrides of the configured client token settings
    * @returns The encoded JWT token for client-side authentication
    */
-  createChatUserJwtToken(userId: UUID): string {
-    logger.debug(`Creating a client-side JWT token for user ID: ${userId}`);
-    return createClientToken(userId, this.secrets);
+  createChatUserJwtToken(userId: UUID, options?: TokenOptions): string {
+    this.logger.debug(`Creating a client-side JWT token for user ID: ${userId}`);
+    return createClientToken(userId, this.secrets, { ...this.tokenConfig.client, ...options });
   }
 
   /**
@@ -107,14 +393,23 @@ export class EthoraSDKService implements ChatRepository {
    * @returns The headers dictionary containing the `x-custom-token` field
    */
   private getHeaders(): Record<string, string> {
-    logger.debug('Retrieving headers for a server-to-server API call');
-    const serverToken = createServerToken(this.secrets);
+    this.logger.debug('Retrieving headers for a server-to-server API call');
+    const serverToken = createServerToken(this.secrets, this.tokenConfig.server);
     return {
       Authorization: `Bearer ${serverToken}`,
       'x-custom-token': serverToken,
     };
   }
 
+  /**
+   * Resolves the app a request targets from its URL (`/v2/apps/{appId}/...`),
+   * falling back to the configured app ID
+   */
+  private resolveAppId(url: string): string {
+    const match = /\/apps\/([^/?]+)/.exec(url);
+    return match ? decodeURIComponent(match[1]) : this.secrets.chatAppId;
+  }
+
   private createScopedChatName(appId: UUID, chatId: UUID): string {
     const appIdStr = String(appId);
     const chatIdStr = String(chatId);
@@ -151,61 +446,465 @@ export class EthoraSDKService implements ChatRepository {
   }
 
   /**
-   * Makes an HTTP request with error handling
+   * Registers a hook that runs before every call, in registration order
+   *
+   * Each hook sees the request as modified by the previous ones. The first
+   * hook that returns `{ response }` short-circuits the call: no request is
+   * sent and later `onRequest` hooks are skipped.
+   *
+   * @param hook - The hook to register
+   * @returns A function that unregisters the hook
+   */
+  onRequest(hook: OnRequestHook): () => void {
+    return this.addHook(this.hooks.onRequest, hook);
+  }
+
+  /**
+   * Registers a hook that runs after every successful call, in registration order
+   *
+   * @param hook - The hook to register
+   * @returns A function that unregisters the hook
+   */
+  onResponse(hook: OnResponseHook): () => void {
+    return this.addHook(this.hooks.onResponse, hook);
+  }
+
+  /**
+   * Registers a hook that runs when a call fails after all retries, in registration order
+   *
+   * The first hook that returns `{ response }` recovers the call with that response.
+   *
+   * @param hook - The hook to register
+   * @returns A function that unregisters the hook
+   */
+  onError(hook: OnErrorHook): () => void {
+    return this.addHook(this.hooks.onError, hook);
+  }
+
+  private addHook<H>(hooks: H[], hook: H): () => void {
+    hooks.push(hook);
+    return () => {
+      const index = hooks.indexOf(hook);
+      if (index !== -1) {
+        hooks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Makes an HTTP request with hooks, error handling and retries
    *
-   * @param config - Axios request configuration
+   * Registered `onRequest` hooks run first and may modify the request or
+   * answer it directly. Transient failures (network errors and the policy's
+   * retryable statuses) are retried with exponential backoff for idempotent
+   * requests. Every failure is normalized into an `EthoraApiError` subclass
+   * carrying the method, URL, status, parsed body, request ID and attempt
+   * count, then passed to the `onError` hooks.
+   *
+   * @param request - The HTTP request to send
+   * @param options - Per-call request options
+   * @param model - Normalizes (and, when enabled, validates) the response
    * @returns The API response
+   * @throws EthoraApiError (or a subclass) when the request fails
+   * @throws EthoraResponseValidationError when strict response validation fails
    */
   private async makeRequest<T = ApiResponse>(
-    config: AxiosRequestConfig,
+    request: ApiRequest,
+    options?: RequestOptions,
+    model?: ResponseModel<T>,
   ): Promise<T> {
-    const headers: Record<string, any> = {
-      ...this.getHeaders(),
-      ...config.headers,
+    const context: HookContext = {
+      operation: request.operation,
+      requestId: randomUUID(),
+      startedAt: Date.now(),
+    };
+    let hookRequest: HookRequest = {
+      method: request.method.toUpperCase(),
+      url: request.url,
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.getHeaders(),
+        'x-request-id': context.requestId,
+        ...request.headers,
+      },
+      data: request.data,
+      timeoutMs: options?.timeoutMs ?? this.timeout.total,
     };
-    const token = headers['x-custom-token'];
-    const method = config.method?.toUpperCase() || 'UNKNOWN';
-    const url = config.url || '';
+
+    let response: TransportResponse | undefined;
+    let attempts = 0;
+    for (const hook of [...this.hooks.onRequest]) {
+      const result = await hook({ ...context, request: hookRequest });
+      if (result && 'response' in result) {
+        this.logger.debug(`[${hookRequest.method}] ${hookRequest.url} answered by an onRequest hook`);
+        response = result.response;
+        break;
+      }
+      if (result && 'request' in result) {
+        hookRequest = result.request;
+      }
+    }
 
     try {
-      const response = await this.httpClient.request<T>({
-        ...config,
-        headers,
-        timeout: DEFAULT_TIMEOUT.total,
+      if (response) {
+        this.assertSuccess(response, hookRequest.method, hookRequest.url, context.requestId);
+      } else {
+        ({ response, attempts } = await this.executeRequest(
+          hookRequest,
+          {
+            operation: context.operation,
+            appId: this.resolveAppId(hookRequest.url),
+            requestId: context.requestId,
+          },
+          options,
+        ));
+      }
+    } catch (error) {
+      response = await this.runErrorHooks(context, hookRequest, error as EthoraApiError);
+    }
+
+    for (const hook of [...this.hooks.onResponse]) {
+      const result = await hook({
+        ...context,
+        request: hookRequest,
+        response,
+        attempts,
+        durationMs: Date.now() - context.startedAt,
+      });
+      if (result && 'response' in result) {
+        response = result.response;
+      }
+    }
+
+    // Return data with URL attached for observability
+    const data = response.data as ApiResponse;
+    if (data && typeof data === 'object') {
+      data.url = hookRequest.url;
+    }
+    if (!model) {
+      return data as T;
+    }
+
+    const result = model.normalize(data);
+    this.validateResponse(model, result, {
+      method: hookRequest.method,
+      url: hookRequest.url,
+      status: response.status,
+      body: response.data,
+      requestId: context.requestId,
+      operation: context.operation,
+    });
+    return result;
+  }
+
+  /**
+   * Validates a request payload or query locally before it is sent
+   *
+   * @throws EthoraValidationError listing every invalid field
+   */
+  private validateRequest(
+    model: RequestModel,
+    payload: unknown,
+    method: string,
+    url: string,
+  ): void {
+    const fields = validateSchema(payload ?? {}, model.schema);
+    if (fields.length > 0) {
+      throw new EthoraValidationError(
+        `[${method}] ${url} invalid ${model.name}: ${describeFields(fields)}`,
+        { method, url, fields },
+      );
+    }
+  }
+
+  /**
+   * Validates a normalized response according to the configured mode
+   *
+   * @throws EthoraResponseValidationError in `strict` mode when the response does not match
+   */
+  private validateResponse<T>(
+    model: ResponseModel<T>,
+    result: T,
+    context: EthoraErrorContext & { operation: string },
+  ): void {
+    if (this.responseValidation === 'off') {
+      return;
+    }
+
+    const fields = validateSchema(result, model.schema);
+    if (fields.length === 0) {
+      return;
+    }
+
+    const { operation, ...errorContext } = context;
+    const message =
+      `[${context.method}] ${context.url} response does not match ${model.name}: ` +
+      describeFields(fields);
+    if (this.responseValidation === 'strict') {
+      throw new EthoraResponseValidationError(message, { ...errorContext, fields });
+    }
+    this.logger.warn(message, {
+      operation,
+      appId: this.resolveAppId(context.url || ''),
+      requestId: context.requestId,
+      fields,
+    });
+  }
+
+  /**
+   * Passes a failed call to the `onError` hooks
+   *
+   * @returns The response supplied by the first hook that recovers the call
+   * @throws The original error when no hook recovers the call
+   */
+  private async runErrorHooks(
+    context: HookContext,
+    request: HookRequest,
+    error: EthoraApiError,
+  ): Promise<TransportResponse> {
+    for (const hook of [...this.hooks.onError]) {
+      const result = await hook({
+        ...context,
+        request,
+        error,
+        durationMs: Date.now() - context.startedAt,
       });
+      if (result && 'response' in result) {
+        this.logger.debug(`[${request.method}] ${request.url} recovered by an onError hook`);
+        return result.response;
+      }
+    }
+    throw error;
+  }
+
+  /**
+   * Sends a request, retrying transient failures according to the retry policy
+   *
+   * @returns The successful response and the number of attempts it took
+   */
+  private async executeRequest(
+    request: HookRequest,
+    fields: RequestLogFields,
+    options?: RequestOptions,
+  ): Promise<{ response: TransportResponse; attempts: number }> {
+    const { method, url } = request;
+    const { requestId } = fields;
+    const policy = isRetryableMethod(method, options?.idempotent)
+      ? mergeRetryPolicy(this.retryPolicy, options?.retry)
+      : mergeRetryPolicy(this.retryPolicy, false);
+
+    const signal = options?.signal;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.scheduleRequest(
+          method,
+          url,
+          requestId,
+          () => this.sendRequest(request, fields, signal),
+          signal,
+        );
+        return { response, attempts: attempt };
+      } catch (error) {
+        const ethoraError = error as EthoraApiError;
+        if (attempt >= policy.maxAttempts || !isRetryableError(ethoraError, policy)) {
+          ethoraError.attempts = attempt;
+          throw ethoraError;
+        }
+
+        const delay = computeRetryDelay(policy, attempt, ethoraError);
+        this.logger.warn(
+          `[${method}] ${url} failed (attempt ${attempt}/${policy.maxAttempts}), ` +
+            `retrying in ${delay}ms: ${ethoraError.message}`,
+          { ...fields, attempt, status: ethoraError.status },
+        );
+        await sleep(delay, signal);
 
-      logger.debug(`✅ [${method}] ${url} success. Token: ${token}`);
-      
-      // Return data with URL attached for observability
-      const data = response.data;
-      if (data && typeof data === 'object') {
-        (data as any).url = url;
+        if (signal?.aborted) {
+          const abortError = this.createAbortError(method, url, requestId, signal);
+          abortError.attempts = attempt;
+          throw abortError;
+        }
       }
-      return data;
+    }
+  }
+
+  /**
+   * Runs a request attempt behind the circuit breaker and under the configured
+   * rate and concurrency limits
+   *
+   * @throws EthoraCircuitOpenError when the circuit breaker rejects the attempt
+   * @throws EthoraAbortError when the signal is aborted before the attempt starts
+   */
+  private async scheduleRequest<T>(
+    method: string,
+    url: string,
+    requestId: string,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (signal?.aborted) {
+      throw this.createAbortError(method, url, requestId, signal);
+    }
+
+    const breaker = this.circuitBreaker;
+    const trial = breaker ? breaker.beforeRequest(method, url) : false;
+    const path = url.startsWith(this.baseEthoraUrl) ? url.slice(this.baseEthoraUrl.length) : url;
+
+    try {
+      const result = this.rateLimiter
+        ? await this.rateLimiter.schedule(path, task, signal)
+        : await task();
+      breaker?.record(trial);
+      return result;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError;
-        const status = axiosError.response?.status || 'No Status';
-        const resData = axiosError.response?.data;
-        const formattedRes = JSON.stringify(resData, null, 2);
-
-        const prettyMessage = 
-          `❌ [${method}] ${url} failed with status ${status}.\n` +
-          `Token: ${token}\n` +
-          `Response: ${formattedRes}`;
-
-        logger.error(prettyMessage);
-        
-        // Wrap in a new error with the pretty message so the consumer see it too
-        const enhancedError = new Error(prettyMessage);
-        (enhancedError as any).status = status;
-        (enhancedError as any).url = url;
-        (enhancedError as any).response = axiosError.response;
-        (enhancedError as any).config = axiosError.config;
-        throw enhancedError;
-      }
-      logger.error('An unexpected error occurred during API call', error);
-      throw error;
+      // The rate limiter rejects with the raw abort reason when a queued attempt is cancelled
+      const ethoraError =
+        error instanceof EthoraApiError
+          ? error
+          : this.createAbortError(method, url, requestId, signal, error);
+      breaker?.record(trial, ethoraError);
+      throw ethoraError;
+    }
+  }
+
+  /**
+   * Creates the error raised when a call is cancelled through its AbortSignal
+   */
+  private createAbortError(
+    method: string,
+    url: string,
+    requestId: string,
+    signal?: AbortSignal,
+    cause?: unknown,
+  ): EthoraAbortError {
+    return new EthoraAbortError(`[${method}] ${url} was aborted`, {
+      method,
+      url,
+      requestId,
+      cause: cause ?? signal?.reason,
+    });
+  }
+
+  /**
+   * Returns the current circuit breaker state
+   *
+   * @returns The breaker state, or `closed` when the breaker is disabled
+   */
+  getCircuitState(): CircuitState {
+    return this.circuitBreaker ? this.circuitBreaker.getState() : 'closed';
+  }
+
+  /**
+   * Returns queue depth and wait-time statistics of the client-side rate limiter
+   *
+   * @returns Statistics keyed by `global` and by route pattern (empty when rate limiting is disabled)
+   */
+  getRateLimiterStats(): Record<string, RateLimiterStats> {
+    return this.rateLimiter ? this.rateLimiter.getStats() : {};
+  }
+
+  /**
+   * Returns the signing keys of this instance, for rotation with
+   * `addKey`, `activateKey` and `retireKey`
+   */
+  getKeyring(): JwtKeyring {
+    return this.secrets.keyring as JwtKeyring;
+  }
+
+  /**
+   * Sends a single request attempt through the transport
+   *
+   * @returns The transport response
+   * @throws EthoraApiError (or a subclass) when no response is received or its status is 4xx/5xx
+   */
+  private async sendRequest(
+    request: HookRequest,
+    fields: RequestLogFields,
+    signal?: AbortSignal,
+  ): Promise<TransportResponse> {
+    const { method, url, headers } = request;
+    const { requestId } = fields;
+    const startedAt = Date.now();
+
+    let response: TransportResponse;
+    try {
+      response = await this.transport.request({
+        method,
+        url,
+        headers,
+        data: request.data,
+        timeoutMs: request.timeoutMs,
+        signal,
+        requestId,
+      });
+    } catch (error) {
+      const durationMs = Date.now() - startedAt;
+      if (error instanceof EthoraAbortError) {
+        this.logger.debug(`[${method}] ${url} was aborted`, { ...fields, durationMs });
+        throw error;
+      }
+      if (error instanceof EthoraApiError) {
+        this.logger.error(`❌ [${method}] ${url} failed: ${error.message}`, undefined, {
+          ...fields,
+          durationMs,
+        });
+        throw error;
+      }
+      this.logger.error('An unexpected error occurred during API call', error, {
+        ...fields,
+        durationMs,
+      });
+      throw new EthoraApiError(
+        `[${method}] ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+        { method, url, requestId, cause: error },
+      );
+    }
+
+    const durationMs = Date.now() - startedAt;
+    if (response.status >= 400) {
+      const formattedRes = JSON.stringify(response.data, null, 2);
+      const prettyMessage = 
+        `❌ [${method}] ${url} failed with status ${response.status}.\n` +
+        `Response: ${formattedRes}`;
+
+      this.logger.error(prettyMessage, undefined, {
+        ...fields,
+        status: response.status,
+        durationMs,
+      });
+    } else {
+      this.logger.debug(`✅ [${method}] ${url} success`, {
+        ...fields,
+        status: response.status,
+        durationMs,
+      });
+    }
+
+    this.assertSuccess(response, method, url, requestId);
+    return response;
+  }
+
+  /**
+   * Throws the matching `EthoraApiError` subclass for a 4xx/5xx response
+   */
+  private assertSuccess(
+    response: TransportResponse,
+    method: string,
+    url: string,
+    requestId: string,
+  ): void {
+    if (response.status >= 400) {
+      throw createEthoraApiError(
+        {
+          method,
+          url,
+          status: response.status,
+          body: response.data,
+          requestId: response.headers?.['x-request-id'] || requestId,
+        },
+        response.headers?.['retry-after'],
+      );
     }
   }
 
@@ -223,78 +922,81 @@ export class EthoraSDKService implements ChatRepository {
   async createUser(
     userId: UUID,
     userData?: Record<string, unknown>,
+    options?: RequestOptions,
   ): Promise<ApiResponse> {
-    logger.info(`Attempting to create user with ID: ${userId}`);
+    this.logger.info(`Attempting to create user with ID: ${userId}`);
     const createUrl = `${this.baseEthoraUrl}/v2/users/batch`;
 
+    const payload: BatchCreateUsersRequest = {
+      bypassEmailConfirmation: true,
+      usersList: [this.buildNewUser(userId, userData)],
+    };
+
+    this.validateRequest(BATCH_CREATE_USERS_REQUEST, payload, 'POST', createUrl);
+
+    this.logger.debug(`Chat service API URL: ${createUrl}`);
+    // Redacted here as well so the password is masked even if the message format changes
+    this.logger.debug(`Request payload: ${JSON.stringify(redactValue(payload))}`);
+
+    return this.makeRequest<ApiResponse>({
+      operation: 'createUser',
+      method: 'POST',
+      url: createUrl,
+      data: payload,
+    }, options);
+  }
+
+  /**
+   * Builds the batch entry for a new user, filling in defaults for missing fields
+   */
+  private buildNewUser(
+    userId: UUID,
+    userData?: Record<string, unknown>,
+  ): BatchCreateUsersRequest['usersList'][number] {
     // Extract user fields from userData or use defaults
     // Generate unique email using UUID if not provided
     const email = (userData?.email as string) || `${randomUUID()}@example.com`;
     const password = (userData?.password as string) || `password_${userId}`;
 
-    // Handle firstName and lastName - split displayName if provided
-    // API requires lastName to be at least 2 characters and not empty
-    let firstName: string;
-    let lastName: string;
-
-    if (userData?.firstName) {
-      firstName = userData.firstName as string;
-      lastName = (userData?.lastName as string) || '';
-    } else if (userData?.displayName) {
-      const displayName = userData.displayName as string;
-      const nameParts = displayName.trim().split(/\s+/);
-      firstName = nameParts[0] || 'User';
-      lastName = nameParts.slice(1).join(' ') || '';
-    } else {
-      firstName = 'User';
-      lastName = '';
-    }
+    // Handle firstName and lastName - split displayName if provided.
+    // Defaults only fill in names the caller did not give; a provided name that
+    // the API would reject (e.g. a lastName shorter than 2 characters) fails validation.
+    let firstName = userData?.firstName as string | undefined;
+    let lastName = userData?.lastName as string | undefined;
 
-    // Ensure lastName meets API requirements: at least 2 characters, not empty
-    if (!lastName || lastName.length < 2) {
-      // Use a default lastName if empty or too short
-      lastName = 'User';
+    if (firstName == null && lastName == null && userData?.displayName) {
+      const nameParts = (userData.displayName as string).trim().split(/\s+/);
+      firstName = nameParts[0] || undefined;
+      lastName = nameParts.slice(1).join(' ') || undefined;
     }
+    firstName = firstName ?? 'User';
+    lastName = lastName ?? 'User';
 
     // Use plain userId without prefixing
     const userIdStr = String(userId);
 
-    const payload = {
-      bypassEmailConfirmation: true,
-      usersList: [
-        {
-          uuid: userIdStr,
-          email: email,
-          firstName: firstName,
-          lastName: lastName,
-          password: password,
-          ...(userData &&
-            Object.fromEntries(
-              Object.entries(userData).filter(
-                ([key]) =>
-                  ![
-                    'email',
-                    'firstName',
-                    'lastName',
-                    'password',
-                    'uuid',
-                    'displayName',
-                    'role',
-                  ].includes(key),
-              ),
-            )),
-        },
-      ],
+    return {
+      uuid: userIdStr,
+      email: email,
+      firstName: firstName,
+      lastName: lastName,
+      password: password,
+      ...(userData &&
+        Object.fromEntries(
+          Object.entries(userData).filter(
+            ([key]) =>
+              ![
+                'email',
+                'firstName',
+                'lastName',
+                'password',
+                'uuid',
+                'displayName',
+                'role',
+              ].includes(key),
+          ),
+        )),
     };
-
-    logger.debug(`Chat service API URL: ${createUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(payload)}`);
-
-    return this.makeRequest<ApiResponse>({
-      method: 'POST',
-      url: createUrl,
-      data: payload,
-    });
   }
 
   /**
@@ -307,8 +1009,9 @@ export class EthoraSDKService implements ChatRepository {
   async createChatRoom(
     chatId: UUID,
     roomData?: Record<string, unknown>,
-  ): Promise<ApiResponse> {
-    logger.info(`Attempting to create chat room with ID: ${chatId}`);
+    options?: RequestOptions,
+  ): Promise<ChatRoomResponse> {
+    this.logger.info(`Attempting to create chat room with ID: ${chatId}`);
     const createUrl = `${this.baseEthoraUrl}/v2/chats`;
 
     // Create chat room - API expects title, uuid, and type
@@ -318,15 +1021,17 @@ export class EthoraSDKService implements ChatRepository {
       type: (roomData?.type as string) || 'group',
       ...roomData, // Allow roomData to override fields if provided
     };
+    this.validateRequest(CREATE_CHAT_ROOM_REQUEST, payload, 'POST', createUrl);
 
-    logger.debug(`Chat service API URL: ${createUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(payload)}`);
+    this.logger.debug(`Chat service API URL: ${createUrl}`);
+    this.logger.debug(`Request payload: ${JSON.stringify(payload)}`);
 
-    return this.makeRequest<ApiResponse>({
+    return this.makeRequest({
+      operation: 'createChatRoom',
       method: 'POST',
       url: createUrl,
       data: payload,
-    });
+    }, options, CHAT_ROOM_RESPONSE);
   }
 
   /**
@@ -339,8 +1044,9 @@ export class EthoraSDKService implements ChatRepository {
   async grantUserAccessToChatRoom(
     chatId: UUID,
     userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse> {
-    logger.info(`Granting user(s) access to chat room ${chatId}`);
+    this.logger.info(`Granting user(s) access to chat room ${chatId}`);
 
     const chatName = this.createChatName(chatId, false);
     // Use /v2/chats/users-access endpoint with chatName and members array
@@ -370,14 +1076,17 @@ export class EthoraSDKService implements ChatRepository {
       members: members,
     };
 
-    logger.debug(`Chat service API URL: ${grantUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(payload)}`);
+    this.validateRequest(GRANT_ACCESS_REQUEST, payload, 'POST', grantUrl);
+
+    this.logger.debug(`Chat service API URL: ${grantUrl}`);
+    this.logger.debug(`Request payload: ${JSON.stringify(payload)}`);
 
     return await this.makeRequest<ApiResponse>({
+      operation: 'grantUserAccessToChatRoom',
       method: 'POST',
       url: grantUrl,
       data: payload,
-    });
+    }, options);
   }
 
   /**
@@ -390,8 +1099,9 @@ export class EthoraSDKService implements ChatRepository {
   async removeUserAccessFromChatRoom(
     chatId: UUID,
     userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse> {
-    logger.info(`Removing user(s) access from chat room ${chatId}`);
+    this.logger.info(`Removing user(s) access from chat room ${chatId}`);
 
     const chatName = this.createChatName(chatId, false);
     // Use /v2/chats/usersAccess/remove DELETE endpoint (fallback to legacy /v2/chats/users-access)
@@ -419,14 +1129,17 @@ export class EthoraSDKService implements ChatRepository {
       members: members,
     };
 
-    logger.debug(`Chat service API URL: ${revokeUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(payload)}`);
+    this.validateRequest(GRANT_ACCESS_REQUEST, payload, 'DELETE', revokeUrl);
+
+    this.logger.debug(`Chat service API URL: ${revokeUrl}`);
+    this.logger.debug(`Request payload: ${JSON.stringify(payload)}`);
 
     return await this.makeRequest<ApiResponse>({
+      operation: 'removeUserAccessFromChatRoom',
       method: 'DELETE',
       url: revokeUrl,
       data: payload,
-    });
+    }, options);
   }
 
   /**
@@ -435,34 +1148,28 @@ export class EthoraSDKService implements ChatRepository {
    * @param userIds - Array of user IDs to delete
    * @returns The API response
    */
-  async deleteUsers(userIds: UUID[]): Promise<ApiResponse> {
-    logger.info(`Attempting to delete users: ${userIds.join(', ')}`);
+  async deleteUsers(userIds: UUID[], options?: RequestOptions): Promise<ApiResponse> {
+    this.logger.info(`Attempting to delete users: ${userIds.join(', ')}`);
     const deleteUrl = `${this.baseEthoraUrl}/v1/users/batch`;
 
     const payload = {
       usersIdList: userIds.map((id) => String(id)),
     };
 
-    logger.debug(`Chat service API URL: ${deleteUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(payload)}`);
+    this.logger.debug(`Chat service API URL: ${deleteUrl}`);
+    this.logger.debug(`Request payload: ${JSON.stringify(payload)}`);
 
     try {
       return await this.makeRequest<ApiResponse>({
+        operation: 'deleteUsers',
         method: 'DELETE',
         url: deleteUrl,
         data: payload,
-      });
+      }, options);
     } catch (error) {
-      const statusCode = (error as any)?.status;
-      const responseText = (error as any)?.response?.data;
-
       // Handle the case where users don't exist (422 with "not found")
-      if (
-        statusCode === 422 &&
-        typeof responseText === 'string' &&
-        responseText.toLowerCase().includes('not found')
-      ) {
-        logger.info(
+      if (error instanceof EthoraNotFoundError && error.status === 422) {
+        this.logger.info(
           'No users to delete from the chat service. The request contained non-existent users.',
         );
         return { ok: false };
@@ -481,8 +1188,8 @@ export class EthoraSDKService implements ChatRepository {
    * @param chatId - The unique identifier of the chat associated with the chat room
    * @returns The JSON response from the chat service upon successful deletion or a success status if not found
    */
-  async deleteChatRoom(chatId: UUID): Promise<ApiResponse> {
-    logger.info(`Attempting to delete chat room with ID: ${chatId}`);
+  async deleteChatRoom(chatId: UUID, options?: RequestOptions): Promise<ApiResponse> {
+    this.logger.info(`Attempting to delete chat room with ID: ${chatId}`);
     const deleteUrl = `${this.baseEthoraUrl}/v1/chats`;
 
     // We must use the short name when deleting the chat room
@@ -491,29 +1198,23 @@ export class EthoraSDKService implements ChatRepository {
       name: chatName,
     };
 
-    logger.debug(`Chat service API URL: ${deleteUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(payload)}`);
+    this.logger.debug(`Chat service API URL: ${deleteUrl}`);
+    this.logger.debug(`Request payload: ${JSON.stringify(payload)}`);
 
     try {
       const response = await this.makeRequest<ApiResponse>({
+        operation: 'deleteChatRoom',
         method: 'DELETE',
         url: deleteUrl,
         data: payload,
-      });
+      }, options);
 
-      logger.info(`Chat room '${chatName}' successfully deleted`);
+      this.logger.info(`Chat room '${chatName}' successfully deleted`);
       return response;
     } catch (error) {
-      const statusCode = (error as any)?.status;
-      const responseText = (error as any)?.response?.data;
-
       // Handle the case where the room does not exist (Ethora returns 422 with "not found" in body)
-      if (
-        statusCode === 422 &&
-        typeof responseText === 'string' &&
-        responseText.toLowerCase().includes('not found')
-      ) {
-        logger.warn(
+      if (error instanceof EthoraNotFoundError && error.status === 422) {
+        this.logger.warn(
           `Chat room '${chatName}' not found during deletion attempt (Ignored 422)`,
         );
         return { ok: false, reason: 'Chat room not found' };
@@ -537,62 +1238,231 @@ export class EthoraSDKService implements ChatRepository {
    * - not-found: user was not found
    * - skipped: user update was skipped
    *
-   * Note: The API only accepts xmppUsername, firstName, lastName, username, and profileImage fields.
-   * Other fields will be filtered out automatically.
+   * Updatable fields: xmppUsername (identifies the user), firstName, lastName,
+   * username, profileImage, description, email, roles, tags, homeScreen,
+   * isProfileOpen and isAssetsOpen. `userId` is ignored; any other field is
+   * rejected with `EthoraValidationError`.
    *
    * @param users - Array of user data to update (1-100 users)
    * @returns The API response with results array containing status for each user
    */
-  async updateUsers(users: UpdateUserData[]): Promise<ApiResponse> {
+  async updateUsers(
+    users: UpdateUserData[],
+    options?: RequestOptions,
+  ): Promise<UpdateUsersResponse> {
+    const updateUrl = `${this.baseEthoraUrl}/v2/chats/users`;
+
     // Validate user count limit
     if (users.length === 0) {
-      throw new Error('At least 1 user is required for update');
+      throw new EthoraValidationError('At least 1 user is required for update', {
+        method: 'PATCH',
+        url: updateUrl,
+        fields: [{ path: 'users', message: 'At least 1 user is required' }],
+      });
     }
-    if (users.length > 100) {
-      throw new Error('Maximum 100 users allowed per update request');
+    if (users.length > MAX_USERS_PER_UPDATE) {
+      throw new EthoraValidationError('Maximum 100 users allowed per update request', {
+        method: 'PATCH',
+        url: updateUrl,
+        fields: [{ path: 'users', message: 'Maximum 100 users allowed' }],
+      });
     }
 
-    logger.info(`Attempting to update ${users.length} user(s)`);
-
-    const updateUrl = `${this.baseEthoraUrl}/v2/chats/users`;
-
     // Remove userId from payload if present, as API doesn't accept it
     // API expects xmppUsername or other identifier fields instead
-    // Also filter to only include allowed fields: xmppUsername, firstName, lastName, username, profileImage
     const cleanedUsers = users.map((user) => {
       const { userId, ...rest } = user;
-      const allowedFields: UpdateUserData = {};
-
-      if (rest.xmppUsername) allowedFields.xmppUsername = rest.xmppUsername;
-      if (rest.firstName) allowedFields.firstName = rest.firstName;
-      if (rest.lastName) allowedFields.lastName = rest.lastName;
-      if (rest.username) allowedFields.username = rest.username;
-      if (rest.profileImage) allowedFields.profileImage = rest.profileImage;
-
-      return allowedFields;
+      return Object.fromEntries(
+        Object.entries(rest).filter(([, value]) => value !== undefined),
+      ) as UpdateUserData;
     });
 
     const payload: UpdateUsersRequest = {
       users: cleanedUsers,
     };
+    // Fields the backend cannot update are rejected rather than dropped
+    this.validateRequest(UPDATE_USERS_REQUEST, payload, 'PATCH', updateUrl);
 
-    logger.debug(`Chat service API URL: ${updateUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(payload)}`);
+    this.logger.info(`Attempting to update ${users.length} user(s)`);
 
-    return this.makeRequest<ApiResponse>({
+    this.logger.debug(`Chat service API URL: ${updateUrl}`);
+    this.logger.debug(`Request payload: ${JSON.stringify(payload)}`);
+
+    return this.makeRequest({
+      operation: 'updateUsers',
       method: 'PATCH',
       url: updateUrl,
       data: payload,
-    });
+    }, options, UPDATE_USERS_RESPONSE);
   }
 
   /**
-   * Gets users from the chat service
+   * Updates any number of users by splitting them into `updateUsers` requests
    *
-   * This method supports multiple query modes:
-   * - No parameters: returns all users of the app
-   * - chatName parameter: returns all users of the chat
-   *   - For group chats: use appId_uuId format
+   * Chunks of `chunkSize` users (at most 100) run with bounded `concurrency`
+   * and their per-user results are merged in input order. With
+   * `continueOnError`, users of a failed chunk are reported with status
+   * `failed` and the chunk error is listed in `errors`.
+   *
+   * @param users - Users to update
+   * @param options - Chunking, concurrency and request options
+   * @returns The merged results with counts per status
+   */
+  async updateUsersBulk(
+    users: UpdateUserData[],
+    options: BulkOptions = {},
+  ): Promise<UpdateUsersBulkReport> {
+    const {
+      chunkSize = MAX_USERS_PER_UPDATE,
+      concurrency = 1,
+      continueOnError = false,
+      ...requestOptions
+    } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_USERS_PER_UPDATE) {
+      throw new EthoraValidationError(`chunkSize must be between 1 and ${MAX_USERS_PER_UPDATE}`, {
+        method: 'PATCH',
+        url: `${this.baseEthoraUrl}/v2/chats/users`,
+        fields: [{ path: 'chunkSize', message: `expected 1-${MAX_USERS_PER_UPDATE}` }],
+      });
+    }
+
+    const chunks = chunk(users, chunkSize);
+    this.logger.info(`Updating ${users.length} user(s) in ${chunks.length} chunk(s)`);
+
+    const report: UpdateUsersBulkReport = {
+      results: [],
+      counts: { updated: 0, 'not-found': 0, skipped: 0, failed: 0 },
+      errors: [],
+    };
+    const outcomes = await mapWithConcurrency(chunks, concurrency, async (items) => {
+      try {
+        return { items, results: (await this.updateUsers(items, requestOptions)).results };
+      } catch (error) {
+        if (!continueOnError) {
+          throw error;
+        }
+        return { items, error: error as Error };
+      }
+    });
+
+    for (const outcome of outcomes) {
+      if (outcome.error) {
+        report.errors.push({ items: outcome.items, error: outcome.error });
+      }
+      const results: UpdateUserResult[] =
+        outcome.results ||
+        outcome.items.map((user) => ({
+          xmppUsername: user.xmppUsername || '',
+          status: 'failed',
+          reason: outcome.error?.message,
+        }));
+      for (const result of results) {
+        report.results.push(result);
+        report.counts[result.status] = (report.counts[result.status] || 0) + 1;
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Replaces the roles of many users
+   *
+   * @param xmppUsernames - Users to update
+   * @param roles - The complete new list of roles
+   * @param options - Chunking, concurrency and request options
+   */
+  async setUserRoles(
+    xmppUsernames: string[],
+    roles: string[],
+    options?: BulkOptions,
+  ): Promise<UpdateUsersBulkReport> {
+    return this.updateUsersBulk(
+      xmppUsernames.map((xmppUsername) => ({ xmppUsername, roles: [...roles] })),
+      options,
+    );
+  }
+
+  /**
+   * Adds tags to many users, keeping their existing tags
+   *
+   * Reads each user's current tags first, so the report also lists users
+   * that could not be read (`not-found`, or `failed` with `continueOnError`).
+   */
+  async addUserTags(
+    xmppUsernames: string[],
+    tags: string[],
+    options?: BulkOptions,
+  ): Promise<UpdateUsersBulkReport> {
+    return this.changeUserTags(xmppUsernames, options, (current) => [
+      ...current,
+      ...tags.filter((tag) => !current.includes(tag)),
+    ]);
+  }
+
+  /**
+   * Removes tags from many users, keeping their other tags
+   *
+   * @see addUserTags
+   */
+  async removeUserTags(
+    xmppUsernames: string[],
+    tags: string[],
+    options?: BulkOptions,
+  ): Promise<UpdateUsersBulkReport> {
+    return this.changeUserTags(xmppUsernames, options, (current) =>
+      current.filter((tag) => !tags.includes(tag)),
+    );
+  }
+
+  /**
+   * Reads the current tags of every user, applies `change` and writes them back in bulk
+   */
+  private async changeUserTags(
+    xmppUsernames: string[],
+    options: BulkOptions = {},
+    change: (current: string[]) => string[],
+  ): Promise<UpdateUsersBulkReport> {
+    const { concurrency = 1, continueOnError = false, ...requestOptions } = options;
+    const unread: UpdateUserResult[] = [];
+    const errors: UpdateUsersBulkReport['errors'] = [];
+
+    const reads = await mapWithConcurrency(xmppUsernames, concurrency, async (xmppUsername) => {
+      try {
+        const { user } = await this.getAppUserByXmppUsername(xmppUsername, requestOptions);
+        return { xmppUsername, tags: change(user.tags || []) };
+      } catch (error) {
+        if (error instanceof EthoraNotFoundError) {
+          unread.push({ xmppUsername, status: 'not-found' });
+        } else if (continueOnError) {
+          unread.push({ xmppUsername, status: 'failed', reason: (error as Error).message });
+          errors.push({ items: [{ xmppUsername }], error: error as Error });
+        } else {
+          throw error;
+        }
+        return undefined;
+      }
+    });
+
+    const updates = reads.filter((read): read is { xmppUsername: string; tags: string[] } => !!read);
+    const report: UpdateUsersBulkReport = updates.length > 0
+      ? await this.updateUsersBulk(updates, options)
+      : { results: [], counts: { updated: 0, 'not-found': 0, skipped: 0, failed: 0 }, errors: [] };
+
+    for (const result of unread) {
+      report.results.push(result);
+      report.counts[result.status] = (report.counts[result.status] || 0) + 1;
+    }
+    report.errors.push(...errors);
+    return report;
+  }
+
+  /**
+   * Gets users from the chat service
+   *
+   * This method supports multiple query modes:
+   * - No parameters: returns all users of the app
+   * - chatName parameter: returns all users of the chat
+   *   - For group chats: use appId_uuId format
    *   - For 1-on-1 chats: use xmppUsernameA-xmppUsernameB format
    * - xmppUsername parameter: returns a specific user by XMPP username
    *
@@ -602,8 +1472,12 @@ export class EthoraSDKService implements ChatRepository {
    * @param params - Query parameters for filtering users (optional)
    * @returns The API response
    */
-  async getUsers(params?: GetUsersQueryParams): Promise<ApiResponse> {
+  async getUsers(
+    params?: GetUsersQueryParams,
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatUser>> {
     const getUrl = `${this.baseEthoraUrl}/v2/chats/users`;
+    this.validateRequest(GET_USERS_QUERY, params, 'GET', getUrl);
 
     // Build query parameters
     const queryParams: string[] = [];
@@ -628,17 +1502,18 @@ export class EthoraSDKService implements ChatRepository {
     const urlWithParams =
       queryParams.length > 0 ? `${getUrl}?${queryParams.join('&')}` : getUrl;
 
-    logger.info(
+    this.logger.info(
       params
         ? `Getting users with params: ${JSON.stringify(params)}`
         : 'Getting all users of the app',
     );
-    logger.debug(`Chat service API URL: ${urlWithParams}`);
+    this.logger.debug(`Chat service API URL: ${urlWithParams}`);
 
-    return this.makeRequest<ApiResponse>({
+    return this.makeRequest({
+      operation: 'getUsers',
       method: 'GET',
       url: urlWithParams,
-    });
+    }, options, CHAT_USER_LIST_RESPONSE);
   }
   /**
    * Gets chat rooms for a specific user
@@ -652,16 +1527,29 @@ export class EthoraSDKService implements ChatRepository {
   async getUserChats(
     userId: UUID,
     params?: GetUserChatsQueryParams,
-  ): Promise<ApiResponse> {
-    return this.getUserChatsInApp(this.secrets.chatAppId, userId, params);
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatRoom>> {
+    return this.fetchUserChats('getUserChats', this.secrets.chatAppId, userId, params, options);
   }
 
   async getUserChatsInApp(
     appId: UUID,
     userId: UUID,
     params?: GetUserChatsQueryParams,
-  ): Promise<ApiResponse> {
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatRoom>> {
+    return this.fetchUserChats('getUserChatsInApp', appId, userId, params, options);
+  }
+
+  private async fetchUserChats(
+    operation: string,
+    appId: UUID,
+    userId: UUID,
+    params?: GetUserChatsQueryParams,
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatRoom>> {
     const getUrl = `${this.baseEthoraUrl}/v2/apps/${appId}/users/${userId}/chats`;
+    this.validateRequest(GET_USER_CHATS_QUERY, params, 'GET', getUrl);
 
     // Build query parameters
     const queryParams: string[] = [];
@@ -678,13 +1566,14 @@ export class EthoraSDKService implements ChatRepository {
     const urlWithParams =
       queryParams.length > 0 ? `${getUrl}?${queryParams.join('&')}` : getUrl;
 
-    logger.info(`Getting chat rooms for user: ${userId}`);
-    logger.debug(`Chat service API URL: ${urlWithParams}`);
+    this.logger.info(`Getting chat rooms for user: ${userId}`);
+    this.logger.debug(`Chat service API URL: ${urlWithParams}`);
 
-    return this.makeRequest<ApiResponse>({
+    return this.makeRequest({
+      operation,
       method: 'GET',
       url: urlWithParams,
-    });
+    }, options, CHAT_ROOM_LIST_RESPONSE);
   }
 
   /**
@@ -699,229 +1588,1626 @@ export class EthoraSDKService implements ChatRepository {
   async updateChatRoom(
     chatId: UUID,
     updateData: { title?: string; description?: string },
+    options?: RequestOptions,
   ): Promise<ApiResponse> {
-    return this.updateChatRoomInApp(this.secrets.chatAppId, chatId, updateData);
+    return this.patchChatRoom(
+      'updateChatRoom',
+      this.secrets.chatAppId,
+      chatId,
+      updateData,
+      options,
+    );
   }
 
   async updateChatRoomInApp(
     appId: UUID,
     chatId: UUID,
     updateData: { title?: string; description?: string },
+    options?: RequestOptions,
+  ): Promise<ApiResponse> {
+    return this.patchChatRoom('updateChatRoomInApp', appId, chatId, updateData, options);
+  }
+
+  private async patchChatRoom(
+    operation: string,
+    appId: UUID,
+    chatId: UUID,
+    updateData: { title?: string; description?: string },
+    options?: RequestOptions,
   ): Promise<ApiResponse> {
     const chatName = this.createScopedChatName(appId, chatId);
     const updateUrl = `${this.baseEthoraUrl}/v2/apps/${appId}/chats/${chatName}`;
 
-    logger.info(`Updating chat room: ${chatName}`);
-    logger.debug(`Chat service API URL: ${updateUrl}`);
-    logger.debug(`Request payload: ${JSON.stringify(updateData)}`);
+    this.logger.info(`Updating chat room: ${chatName}`);
+    this.logger.debug(`Chat service API URL: ${updateUrl}`);
+    this.logger.debug(`Request payload: ${JSON.stringify(updateData)}`);
 
     return this.makeRequest<ApiResponse>({
+      operation,
       method: 'PATCH',
       url: updateUrl,
       data: updateData,
-    });
+    }, options);
   }
 
-  async listApps(params?: ListAppsQueryParams): Promise<ApiResponse> {
+  async listApps(
+    params?: ListAppsQueryParams,
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<App>> {
+    this.validateRequest(LIST_APPS_QUERY, params, 'GET', `${this.baseEthoraUrl}/v2/apps`);
     const url = `${this.baseEthoraUrl}/v2/apps${this.buildQueryString(params)}`;
-    return this.makeRequest<ApiResponse>({ method: 'GET', url });
+    return this.makeRequest(
+      { operation: 'listApps', method: 'GET', url },
+      options,
+      APP_LIST_RESPONSE,
+    );
   }
 
-  async getApp(appId: UUID): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  async getApp(appId: UUID, options?: RequestOptions): Promise<AppResponse> {
+    return this.makeRequest({
+      operation: 'getApp',
       method: 'GET',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}`,
-    });
+    }, options, APP_RESPONSE);
   }
 
-  async createApp(appData: CreateAppRequest): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  async createApp(
+    appData: CreateAppRequest,
+    options?: RequestOptions,
+  ): Promise<AppResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps`;
+    this.validateRequest(CREATE_APP_REQUEST, appData, 'POST', url);
+    return this.makeRequest({
+      operation: 'createApp',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps`,
+      url,
       data: appData,
-    });
+    }, options, APP_RESPONSE);
   }
 
-  async deleteApp(appId: UUID): Promise<ApiResponse> {
+  async deleteApp(appId: UUID, options?: RequestOptions): Promise<ApiResponse> {
     return this.makeRequest<ApiResponse>({
+      operation: 'deleteApp',
       method: 'DELETE',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}`,
-    });
+    }, options);
   }
 
-  async listAppTokens(appId: UUID): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  async listAppTokens(
+    appId: UUID,
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<AppToken>> {
+    return this.makeRequest({
+      operation: 'listAppTokens',
       method: 'GET',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}/tokens`,
-    });
+    }, options, APP_TOKEN_LIST_RESPONSE);
   }
 
   async createAppToken(
     appId: UUID,
     payload?: CreateAppTokenRequest,
-  ): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+    options?: RequestOptions,
+  ): Promise<AppTokenResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/tokens`;
+    this.validateRequest(APP_TOKEN_REQUEST, payload, 'POST', url);
+    return this.makeRequest({
+      operation: 'createAppToken',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/tokens`,
+      url,
       data: payload || {},
-    });
+    }, options, APP_TOKEN_RESPONSE);
   }
 
-  async revokeAppToken(appId: UUID, tokenId: UUID): Promise<ApiResponse> {
+  async revokeAppToken(
+    appId: UUID,
+    tokenId: UUID,
+    options?: RequestOptions,
+  ): Promise<ApiResponse> {
     return this.makeRequest<ApiResponse>({
+      operation: 'revokeAppToken',
       method: 'DELETE',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}/tokens/${tokenId}`,
-    });
+    }, options);
   }
 
   async rotateAppToken(
     appId: UUID,
     tokenId: UUID,
     payload?: RotateAppTokenRequest,
-  ): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+    options?: RequestOptions,
+  ): Promise<AppTokenResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/tokens/${tokenId}/rotate`;
+    this.validateRequest(APP_TOKEN_REQUEST, payload, 'POST', url);
+    return this.makeRequest({
+      operation: 'rotateAppToken',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/tokens/${tokenId}/rotate`,
+      url,
       data: payload || {},
-    });
+    }, options, APP_TOKEN_RESPONSE);
   }
 
-  async provisionApp(appId: UUID, payload?: ProvisionAppRequest): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  async provisionApp(
+    appId: UUID,
+    payload?: ProvisionAppRequest,
+    options?: RequestOptions,
+  ): Promise<ProvisionAppResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/provision`;
+    this.validateRequest(PROVISION_APP_REQUEST, payload, 'POST', url);
+    return this.makeRequest({
+      operation: 'provisionApp',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/provision`,
+      url,
       data: payload || {},
-    });
+    }, options, PROVISION_APP_RESPONSE);
   }
 
-  async getAppBot(appId: UUID): Promise<ApiResponse> {
+  async getAppBot(appId: UUID, options?: RequestOptions): Promise<ApiResponse> {
     return this.makeRequest<ApiResponse>({
+      operation: 'getAppBot',
       method: 'GET',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}/bot`,
-    });
+    }, options);
   }
 
-  async updateAppBot(appId: UUID, payload: UpdateAppBotRequest): Promise<ApiResponse> {
+  async updateAppBot(
+    appId: UUID,
+    payload: UpdateAppBotRequest,
+    options?: RequestOptions,
+  ): Promise<ApiResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/bot`;
+    this.validateRequest(UPDATE_APP_BOT_REQUEST, payload, 'PUT', url);
     return this.makeRequest<ApiResponse>({
+      operation: 'updateAppBot',
       method: 'PUT',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/bot`,
+      url,
       data: payload,
-    });
+    }, options);
   }
 
   async broadcastToAppChats(
     appId: UUID,
     payload: CreateAppBroadcastRequest,
-  ): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+    options?: RequestOptions,
+  ): Promise<BroadcastJobResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/chats/broadcast`;
+    this.validateRequest(CREATE_APP_BROADCAST_REQUEST, payload, 'POST', url);
+    return this.makeRequest({
+      operation: 'broadcastToAppChats',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats/broadcast`,
+      url,
       data: payload,
-    });
+    }, options, BROADCAST_JOB_RESPONSE);
   }
 
-  async getAppBroadcastJob(appId: UUID, jobId: UUID): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  async getAppBroadcastJob(
+    appId: UUID,
+    jobId: UUID,
+    options?: RequestOptions,
+  ): Promise<BroadcastJobResponse> {
+    return this.makeRequest({
+      operation: 'getAppBroadcastJob',
       method: 'GET',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats/broadcast/${jobId}`,
-    });
+    }, options, BROADCAST_JOB_RESPONSE);
   }
 
-  async getAppUserByXmppUsername(xmppUsername: UUID): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  /**
+   * Polls a broadcast job with backoff until it reaches a terminal state
+   *
+   * A job that completes with some failed rooms resolves normally; inspect
+   * `failed` on the result or through `onProgress`.
+   *
+   * @param appId - The app the broadcast was sent in
+   * @param jobId - The job returned by `broadcastToAppChats`
+   * @param options - Polling settings, cancellation signal and progress callback
+   * @returns The completed job
+   * @throws EthoraJobFailedError when the job fails
+   * @throws EthoraJobTimeoutError when `timeoutMs` elapses first
+   */
+  async waitForBroadcastJob(
+    appId: UUID,
+    jobId: UUID,
+    options: WaitForBroadcastJobOptions = {},
+  ): Promise<BroadcastJob> {
+    const { onProgress, signal } = options;
+    return pollJob(
+      async () => (await this.getAppBroadcastJob(appId, jobId, { signal })).job,
+      options,
+      { method: 'GET', url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats/broadcast/${jobId}` },
+      (job) => {
+        const failed = job.failed ?? 0;
+        const progress: BroadcastProgress = {
+          job,
+          total: job.total,
+          delivered: Math.max(0, (job.processed ?? 0) - failed),
+          failed,
+          pending:
+            job.total !== undefined ? Math.max(0, job.total - (job.processed ?? 0)) : undefined,
+        };
+        this.logger.debug(`Broadcast job ${jobId} is ${job.status}`, {
+          operation: 'waitForBroadcastJob',
+          appId,
+          delivered: progress.delivered,
+          failed: progress.failed,
+          pending: progress.pending,
+        });
+        onProgress?.(progress);
+      },
+    );
+  }
+
+  /**
+   * Starts a broadcast and waits for its job to finish
+   *
+   * @see waitForBroadcastJob
+   */
+  async broadcastAndWait(
+    appId: UUID,
+    payload: CreateAppBroadcastRequest,
+    options: WaitForBroadcastJobOptions = {},
+  ): Promise<BroadcastJob> {
+    const { job } = await this.broadcastToAppChats(appId, payload, { signal: options.signal });
+    // Dry runs and small broadcasts may already be finished
+    if (isJobCompleted(job.status)) {
+      return job;
+    }
+    return this.waitForBroadcastJob(appId, job.jobId, options);
+  }
+
+  async getAppUserByXmppUsername(
+    xmppUsername: UUID,
+    options?: RequestOptions,
+  ): Promise<ChatUserResponse> {
+    return this.makeRequest({
+      operation: 'getAppUserByXmppUsername',
       method: 'GET',
       url: `${this.baseEthoraUrl}/v1/apps/users/${encodeURIComponent(String(xmppUsername))}`,
-    });
+    }, options, CHAT_USER_RESPONSE);
   }
 
-  async createUsersInApp(appId: UUID, payload: BatchCreateUsersRequest): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  async createUsersInApp(
+    appId: UUID,
+    payload: BatchCreateUsersRequest,
+    options?: RequestOptions,
+  ): Promise<BatchJobResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/users/batch`;
+    this.validateRequest(BATCH_CREATE_USERS_REQUEST, payload, 'POST', url);
+    return this.makeRequest({
+      operation: 'createUsersInApp',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/users/batch`,
+      url,
       data: payload,
-    });
+    }, options, BATCH_JOB_RESPONSE);
   }
 
-  async getUsersBatchJob(appId: UUID, jobId: UUID): Promise<ApiResponse> {
-    return this.makeRequest<ApiResponse>({
+  async getUsersBatchJob(
+    appId: UUID,
+    jobId: UUID,
+    options?: RequestOptions,
+  ): Promise<BatchJobResponse> {
+    return this.makeRequest({
+      operation: 'getUsersBatchJob',
       method: 'GET',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}/users/batch/${jobId}`,
-    });
+    }, options, BATCH_JOB_RESPONSE);
   }
 
-  async deleteUsersInApp(appId: UUID, userIds: UUID[]): Promise<ApiResponse> {
+  /**
+   * Polls a batch user-creation job until it completes and maps its per-user results
+   *
+   * Each row is reported as `created`, `already-exists` or `failed` (with a
+   * `reason`), so callers can retry only the failed rows.
+   *
+   * @param appId - The app the users are created in
+   * @param jobId - The job returned by `createUsersInApp`
+   * @param options - Polling settings, cancellation signal and progress callback
+   * @throws EthoraJobFailedError when the job as a whole fails
+   * @throws EthoraJobTimeoutError when `timeoutMs` elapses first
+   */
+  async waitForUsersBatchJob(
+    appId: UUID,
+    jobId: UUID,
+    options: WaitForUsersBatchJobOptions = {},
+  ): Promise<UsersBatchJobResult> {
+    const { onProgress, signal } = options;
+    const job = await pollJob(
+      async () => (await this.getUsersBatchJob(appId, jobId, { signal })).job,
+      options,
+      { method: 'GET', url: `${this.baseEthoraUrl}/v2/apps/${appId}/users/batch/${jobId}` },
+      (current) => {
+        this.logger.debug(`Users batch job ${jobId} is ${current.status}`, {
+          operation: 'waitForUsersBatchJob',
+          appId,
+          processed: current.processed,
+          total: current.total,
+        });
+        onProgress?.(current);
+      },
+    );
+
+    return toUsersBatchJobResult(job);
+  }
+
+  async deleteUsersInApp(
+    appId: UUID,
+    userIds: UUID[],
+    options?: RequestOptions,
+  ): Promise<ApiResponse> {
     return this.makeRequest<ApiResponse>({
+      operation: 'deleteUsersInApp',
       method: 'DELETE',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}/users/batch`,
       data: { usersIdList: userIds.map((id) => String(id)) },
+    }, options);
+  }
+
+  /**
+   * Creates any number of users by splitting `usersList` into `createUsersInApp` requests
+   *
+   * Every chunk's batch job is awaited. Users are identified by `uuid` (or
+   * `email`); users that already exist count as succeeded, so a migration can
+   * be re-run safely. Pass a previous report as `resumeFrom` to skip users
+   * that already succeeded.
+   *
+   * @param appId - The app to create the users in
+   * @param payload - The users and batch settings, as for `createUsersInApp`
+   * @param options - Chunking (default 100 users), concurrency, polling and request options
+   * @throws EthoraBulkOperationError when a chunk fails and `continueOnError` is not set
+   */
+  async createUsersInAppBulk(
+    appId: UUID,
+    payload: BatchCreateUsersRequest,
+    options: CreateUsersBulkOptions = {},
+  ): Promise<BulkReport> {
+    const { polling, ...bulkOptions } = options;
+    const { usersList, ...batchSettings } = payload;
+    const idOf = (user: BatchCreateUsersRequest['usersList'][number]) =>
+      String(user.uuid || user.email);
+
+    return this.runResumableBulk('createUsersInAppBulk', usersList, idOf, bulkOptions,
+      async (users, requestOptions) => {
+        const { job } = await this.createUsersInApp(
+          appId,
+          { ...batchSettings, usersList: users },
+          requestOptions,
+        );
+        const { results } = isJobCompleted(job.status)
+          ? toUsersBatchJobResult(job)
+          : await this.waitForUsersBatchJob(appId, job.jobId, {
+              ...polling,
+              signal: requestOptions.signal,
+            });
+
+        // Jobs that do not report per-user rows succeeded as a whole
+        if (results.length === 0) {
+          return { succeeded: users.map(idOf), failed: [] };
+        }
+        const outcome: Pick<BulkReport, 'succeeded' | 'failed'> = { succeeded: [], failed: [] };
+        for (const user of users) {
+          const row = results.find(
+            (result) =>
+              (user.uuid && result.uuid === user.uuid) || (user.email && result.email === user.email),
+          );
+          if (row && row.status !== 'failed') {
+            outcome.succeeded.push(idOf(user));
+          } else {
+            outcome.failed.push({ id: idOf(user), reason: row?.reason || 'no result reported' });
+          }
+        }
+        return outcome;
+      });
+  }
+
+  /**
+   * Deletes any number of users by splitting them into `deleteUsers` requests
+   *
+   * Users that do not exist count as deleted. Pass a previous report as
+   * `resumeFrom` to skip users that were already deleted.
+   *
+   * @param userIds - Users to delete
+   * @param options - Chunking (default 100 users), concurrency and request options
+   * @throws EthoraBulkOperationError when a chunk fails and `continueOnError` is not set
+   */
+  async deleteUsersBulk(
+    userIds: UUID[],
+    options: ResumableBulkOptions = {},
+  ): Promise<BulkReport> {
+    return this.runResumableBulk('deleteUsersBulk', userIds.map(String), String, options,
+      (ids, requestOptions) =>
+        this.deleteUsersChunk(ids, (chunkIds) => this.deleteUsers(chunkIds, requestOptions)));
+  }
+
+  /**
+   * Deletes any number of users of an app by splitting them into `deleteUsersInApp` requests
+   *
+   * @see deleteUsersBulk
+   */
+  async deleteUsersInAppBulk(
+    appId: UUID,
+    userIds: UUID[],
+    options: ResumableBulkOptions = {},
+  ): Promise<BulkReport> {
+    return this.runResumableBulk('deleteUsersInAppBulk', userIds.map(String), String, options,
+      (ids, requestOptions) =>
+        this.deleteUsersChunk(ids, (chunkIds) =>
+          this.deleteUsersInApp(appId, chunkIds, requestOptions)));
+  }
+
+  /**
+   * Deletes one chunk of users
+   *
+   * The API rejects a whole batch when some of its users do not exist, so
+   * such a chunk is retried one user at a time and missing users count as deleted.
+   */
+  private async deleteUsersChunk(
+    ids: string[],
+    remove: (ids: string[]) => Promise<ApiResponse>,
+  ): Promise<Pick<BulkReport, 'succeeded' | 'failed'>> {
+    try {
+      const response = await remove(ids);
+      if (response.ok !== false) {
+        return { succeeded: ids, failed: [] };
+      }
+    } catch (error) {
+      if (!(error instanceof EthoraNotFoundError)) {
+        throw error;
+      }
+    }
+    if (ids.length === 1) {
+      return { succeeded: ids, failed: [] };
+    }
+
+    const outcome: Pick<BulkReport, 'succeeded' | 'failed'> = { succeeded: [], failed: [] };
+    for (const id of ids) {
+      try {
+        const single = await this.deleteUsersChunk([id], remove);
+        outcome.succeeded.push(...single.succeeded);
+      } catch (error) {
+        outcome.failed.push({ id, reason: (error as Error).message });
+      }
+    }
+    return outcome;
+  }
+
+  /**
+   * Runs a chunked bulk operation and consolidates the outcome into a resumable report
+   *
+   * @param operation - Name used in logs and errors
+   * @param items - Items to process
+   * @param idOf - Identifies an item in the report
+   * @param options - Chunking, concurrency, resume and request options
+   * @param processChunk - Processes one chunk, reporting per-item outcomes
+   */
+  private async runResumableBulk<T>(
+    operation: string,
+    items: T[],
+    idOf: (item: T) => string,
+    options: ResumableBulkOptions,
+    processChunk: (
+      chunk: T[],
+      requestOptions: RequestOptions,
+    ) => Promise<Pick<BulkReport, 'succeeded' | 'failed'>>,
+  ): Promise<BulkReport> {
+    const {
+      chunkSize = DEFAULT_BULK_CHUNK_SIZE,
+      concurrency = 1,
+      continueOnError = false,
+      resumeFrom,
+      ...requestOptions
+    } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new EthoraValidationError(`${operation}: chunkSize must be a positive integer`, {
+        fields: [{ path: 'chunkSize', message: 'expected a positive integer' }],
+      });
+    }
+
+    const done = new Set(resumeFrom?.succeeded);
+    const chunks = chunk(items.filter((item) => !done.has(idOf(item))), chunkSize);
+    this.logger.info(
+      `${operation}: processing ${items.length - done.size} item(s) in ${chunks.length} chunk(s)`,
+      { operation, skipped: done.size },
+    );
+
+    let stopError: unknown;
+    const outcomes = await mapWithConcurrency(chunks, concurrency, async (chunkItems) => {
+      const ids = chunkItems.map(idOf);
+      if (stopError || requestOptions.signal?.aborted) {
+        return { succeeded: [], failed: [], pending: ids };
+      }
+      try {
+        return { ...(await processChunk(chunkItems, requestOptions)), pending: [] };
+      } catch (error) {
+        if (!continueOnError || error instanceof EthoraAbortError) {
+          stopError = stopError || error;
+        }
+        const reason = (error as Error).message;
+        return { succeeded: [], failed: ids.map((id) => ({ id, reason })), pending: [] };
+      }
+    });
+
+    const report: BulkReport = { succeeded: [...done], failed: [], pending: [] };
+    for (const outcome of outcomes) {
+      report.succeeded.push(...outcome.succeeded);
+      report.failed.push(...outcome.failed);
+      report.pending.push(...outcome.pending);
+    }
+    this.logger.info(`${operation}: finished`, {
+      operation,
+      succeeded: report.succeeded.length,
+      failed: report.failed.length,
+      pending: report.pending.length,
     });
+
+    if (stopError) {
+      const cause = stopError instanceof EthoraApiError ? stopError : undefined;
+      throw new EthoraBulkOperationError(
+        `${operation} stopped after a failed chunk: ${(stopError as Error).message}`,
+        {
+          method: cause?.method,
+          url: cause?.url,
+          status: cause?.status,
+          requestId: cause?.requestId,
+          cause: stopError,
+          report,
+        },
+      );
+    }
+    return report;
   }
 
   async createChatRoomInApp(
     appId: UUID,
     chatId: UUID,
     roomData?: Record<string, unknown>,
-  ): Promise<ApiResponse> {
+    options?: RequestOptions,
+  ): Promise<ChatRoomResponse> {
     const payload: CreateChatRoomRequest = {
       title: (roomData?.title as string) || `Chat Room ${chatId}`,
       uuid: String(chatId),
       type: (roomData?.type as string) || 'group',
       ...roomData,
     };
-    return this.makeRequest<ApiResponse>({
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/chats`;
+    this.validateRequest(CREATE_CHAT_ROOM_REQUEST, payload, 'POST', url);
+    return this.makeRequest({
+      operation: 'createChatRoomInApp',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats`,
+      url,
       data: payload,
-    });
+    }, options, CHAT_ROOM_RESPONSE);
   }
 
   async listChatsInApp(
     appId: UUID,
     params?: ListAppChatsQueryParams,
-  ): Promise<ApiResponse> {
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatRoom>> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/chats`;
+    this.validateRequest(LIST_APP_CHATS_QUERY, params, 'GET', url);
     const query = this.buildQueryString(params);
-    return this.makeRequest<ApiResponse>({
+    return this.makeRequest({
+      operation: 'listChatsInApp',
       method: 'GET',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats${query}`,
-    });
+      url: `${url}${query}`,
+    }, options, CHAT_ROOM_LIST_RESPONSE);
   }
 
-  async deleteChatRoomInApp(appId: UUID, chatId: UUID): Promise<ApiResponse> {
+  async deleteChatRoomInApp(
+    appId: UUID,
+    chatId: UUID,
+    options?: RequestOptions,
+  ): Promise<ApiResponse> {
     return this.makeRequest<ApiResponse>({
+      operation: 'deleteChatRoomInApp',
       method: 'DELETE',
       url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats`,
       data: { name: this.createScopedChatName(appId, chatId) },
-    });
+    }, options);
   }
 
   async grantUserAccessToChatRoomInApp(
     appId: UUID,
     chatId: UUID,
     userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/chats/users-access`;
+    const payload: GrantAccessRequest = {
+      chatName: this.createScopedChatName(appId, chatId),
+      members: this.createScopedMembers(appId, userId),
+    };
+    this.validateRequest(GRANT_ACCESS_REQUEST, payload, 'POST', url);
     return this.makeRequest<ApiResponse>({
+      operation: 'grantUserAccessToChatRoomInApp',
       method: 'POST',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats/users-access`,
-      data: {
-        chatName: this.createScopedChatName(appId, chatId),
-        members: this.createScopedMembers(appId, userId),
-      },
-    });
+      url,
+      data: payload,
+    }, options);
   }
 
   async removeUserAccessFromChatRoomInApp(
     appId: UUID,
     chatId: UUID,
     userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse> {
+    const url = `${this.baseEthoraUrl}/v2/apps/${appId}/chats/users-access`;
+    const payload: GrantAccessRequest = {
+      chatName: this.createScopedChatName(appId, chatId),
+      members: this.createScopedMembers(appId, userId),
+    };
+    this.validateRequest(GRANT_ACCESS_REQUEST, payload, 'DELETE', url);
     return this.makeRequest<ApiResponse>({
+      operation: 'removeUserAccessFromChatRoomInApp',
       method: 'DELETE',
-      url: `${this.baseEthoraUrl}/v2/apps/${appId}/chats/users-access`,
-      data: {
-        chatName: this.createScopedChatName(appId, chatId),
-        members: this.createScopedMembers(appId, userId),
+      url,
+      data: payload,
+    }, options);
+  }
+
+  /**
+   * Creates the user unless it already exists
+   *
+   * An existing user is detected through the backend's "already exists"
+   * responses. With `updateOnDrift`, an existing user whose profile fields
+   * differ from `userData` is updated.
+   *
+   * @param userId - The unique identifier of the user
+   * @param userData - Data for a new user, as for `createUser`
+   * @returns Whether the user was created or updated, and the user as stored
+   */
+  async ensureUser(
+    userId: UUID,
+    userData?: Record<string, unknown>,
+    options: EnsureOptions = {},
+  ): Promise<EnsureResult<ChatUser>> {
+    return this.ensureUserWith(this.secrets.chatAppId, userId, userData, options,
+      async (requestOptions) => {
+        const response = await this.createUser(userId, userData, requestOptions);
+        const { items } = toPaginatedResponse(response, [], normalizeUserBatchResult);
+        return this.isUserCreated(items, userId, `${this.baseEthoraUrl}/v2/users/batch`);
+      });
+  }
+
+  /**
+   * Creates the user in an app unless it already exists, awaiting the batch job
+   *
+   * @see ensureUser
+   */
+  async ensureUserInApp(
+    appId: UUID,
+    userId: UUID,
+    userData?: Record<string, unknown>,
+    options: EnsureOptions = {},
+  ): Promise<EnsureResult<ChatUser>> {
+    return this.ensureUserWith(appId, userId, userData, options, async (requestOptions) => {
+      const { job } = await this.createUsersInApp(appId, {
+        bypassEmailConfirmation: true,
+        usersList: [this.buildNewUser(userId, userData)],
+      }, requestOptions);
+      const { results } = isJobCompleted(job.status)
+        ? toUsersBatchJobResult(job)
+        : await this.waitForUsersBatchJob(appId, job.jobId, { signal: requestOptions.signal });
+
+      return this.isUserCreated(results, userId, `${this.baseEthoraUrl}/v2/apps/${appId}/users/batch`);
+    });
+  }
+
+  /**
+   * Creates the chat room unless it already exists
+   *
+   * With `updateOnDrift`, an existing room whose title or description differ
+   * from `roomData` is updated.
+   *
+   * @param chatId - The unique identifier of the chat
+   * @param roomData - Data for a new room, as for `createChatRoom`
+   * @returns Whether the room was created or updated, and the room
+   */
+  async ensureChatRoom(
+    chatId: UUID,
+    roomData?: Record<string, unknown>,
+    options: EnsureOptions = {},
+  ): Promise<EnsureResult<ChatRoom>> {
+    return this.ensureChatRoomWith(this.secrets.chatAppId, chatId, roomData, options,
+      (requestOptions) => this.createChatRoom(chatId, roomData, requestOptions),
+      (drift, requestOptions) => this.updateChatRoom(chatId, drift, requestOptions));
+  }
+
+  async ensureChatRoomInApp(
+    appId: UUID,
+    chatId: UUID,
+    roomData?: Record<string, unknown>,
+    options: EnsureOptions = {},
+  ): Promise<EnsureResult<ChatRoom>> {
+    return this.ensureChatRoomWith(appId, chatId, roomData, options,
+      (requestOptions) => this.createChatRoomInApp(appId, chatId, roomData, requestOptions),
+      (drift, requestOptions) => this.updateChatRoomInApp(appId, chatId, drift, requestOptions));
+  }
+
+  /**
+   * Grants access to the users that are not members of the chat room yet
+   *
+   * Current members are read with `getUsers({ chatName })`, so only missing
+   * users are granted access. `created` is true when anyone was added.
+   *
+   * @param chatId - The unique identifier of the chat
+   * @param userIds - The users that must have access
+   */
+  async ensureAccess(
+    chatId: UUID,
+    userIds: UUID | UUID[],
+    options?: RequestOptions,
+  ): Promise<EnsureResult<RoomAccess>> {
+    return this.ensureAccessWith(this.secrets.chatAppId, chatId, userIds, options,
+      (members) => this.grantUserAccessToChatRoom(chatId, members, options));
+  }
+
+  async ensureAccessInApp(
+    appId: UUID,
+    chatId: UUID,
+    userIds: UUID | UUID[],
+    options?: RequestOptions,
+  ): Promise<EnsureResult<RoomAccess>> {
+    return this.ensureAccessWith(appId, chatId, userIds, options,
+      (members) => this.grantUserAccessToChatRoomInApp(appId, chatId, members, options));
+  }
+
+  /**
+   * Grants and revokes access so that the chat room members match `desiredUserIds`
+   *
+   * Current members are read with `getUsers({ chatName })`. Missing users are
+   * granted access and members that are not desired lose it, in chunks of
+   * `chunkSize` (default 100). An empty `desiredUserIds` removes every member.
+   * With `dryRun`, only the plan is returned.
+   *
+   * @param chatId - The unique identifier of the chat
+   * @param desiredUserIds - Every user that should have access
+   * @param options - Dry run, chunking, concurrency and request options
+   * @returns The plan and what was granted and revoked
+   */
+  async syncRoomMembers(
+    chatId: UUID,
+    desiredUserIds: UUID[],
+    options?: SyncRoomMembersOptions,
+  ): Promise<RoomMembersSyncReport> {
+    return this.syncRoomMembersWith(this.secrets.chatAppId, chatId, desiredUserIds, options, {
+      grant: (members, requestOptions) =>
+        this.grantUserAccessToChatRoom(chatId, members, requestOptions),
+      revoke: (members, requestOptions) =>
+        this.removeUserAccessFromChatRoom(chatId, members, requestOptions),
+    });
+  }
+
+  async syncRoomMembersInApp(
+    appId: UUID,
+    chatId: UUID,
+    desiredUserIds: UUID[],
+    options?: SyncRoomMembersOptions,
+  ): Promise<RoomMembersSyncReport> {
+    return this.syncRoomMembersWith(appId, chatId, desiredUserIds, options, {
+      grant: (members, requestOptions) =>
+        this.grantUserAccessToChatRoomInApp(appId, chatId, members, requestOptions),
+      revoke: (members, requestOptions) =>
+        this.removeUserAccessFromChatRoomInApp(appId, chatId, members, requestOptions),
+    });
+  }
+
+  /**
+   * Provisions a workspace: an app (unless `appId` is given), its users, a chat
+   * room and the members' access, using the tenant-admin `...InApp` methods
+   *
+   * Every completed step is recorded in a journal. When a step fails, the
+   * completed steps are undone in reverse order (deleting only what this run
+   * created) and an `EthoraSagaError` carrying the journal is thrown. Persist
+   * the journal via `onStep` and pass it back as `resumeFrom` to continue a
+   * run that was interrupted or ran with `compensate: false`.
+   *
+   * @param request - The app, users, room and members to provision
+   * @param options - Journal, compensation, polling and request options
+   * @returns The app ID, room name, granted members and the step journal
+   */
+  async provisionWorkspace(
+    request: ProvisionWorkspaceRequest,
+    options: ProvisionWorkspaceOptions = {},
+  ): Promise<ProvisionWorkspaceResult> {
+    const { resumeFrom, compensate, onStep, polling, ...requestOptions } = options;
+    if (!request.appId && !request.app) {
+      throw new EthoraValidationError('provisionWorkspace: either appId or app is required', {
+        fields: [{ path: 'appId', message: 'required when app is not given' }],
+      });
+    }
+
+    const { chatId, ...roomData } = request.room;
+    const users = request.users || [];
+    const memberIds = request.members || users.map((user) => user.userId);
+    // Compensation must still run when the caller's signal aborted the failed step
+    const { signal: _signal, ...cleanupOptions } = requestOptions;
+    let appId = request.appId as UUID;
+    const resolveAppId = (outputs: Record<string, SagaStepOutput>): UUID => {
+      appId = request.appId || (outputs['create-app']?.appId as UUID);
+      return appId;
+    };
+
+    const steps: SagaStep[] = [
+      {
+        name: 'create-users',
+        run: async (outputs) => {
+          const targetAppId = resolveAppId(outputs);
+          if (users.length === 0) {
+            return { created: [], existing: [] };
+          }
+          const usersList = users.map(({ userId, ...userData }) => this.buildNewUser(userId, userData));
+          const { job } = await this.createUsersInApp(targetAppId, {
+            bypassEmailConfirmation: true,
+            usersList,
+          }, requestOptions);
+          const { results } = isJobCompleted(job.status)
+            ? toUsersBatchJobResult(job)
+            : await this.waitForUsersBatchJob(targetAppId, job.jobId, {
+                ...polling,
+                signal: requestOptions.signal,
+              });
+
+          const created: string[] = [];
+          const existing: string[] = [];
+          const failed: string[] = [];
+          for (const { uuid } of usersList) {
+            const id = String(uuid);
+            // Jobs that do not report per-user rows succeeded as a whole
+            const row = results.find((result) => result.uuid === id);
+            if (results.length === 0 || row?.status === 'created') {
+              created.push(id);
+            } else if (row?.status === 'already-exists') {
+              existing.push(id);
+            } else {
+              failed.push(`${id} (${row?.reason || 'no result reported'})`);
+            }
+          }
+
+          if (failed.length > 0) {
+            // The step is not recorded as completed, so undo its partial result here
+            if (created.length > 0) {
+              await this.deleteUsersInApp(targetAppId, created, cleanupOptions).catch((error) =>
+                this.logger.warn(`Could not delete users created before the failure: ${(error as Error).message}`),
+              );
+            }
+            throw new EthoraApiError(`Creating users failed: ${failed.join(', ')}`, {
+              method: 'POST',
+              url: `${this.baseEthoraUrl}/v2/apps/${targetAppId}/users/batch`,
+            });
+          }
+          return { created, existing };
+        },
+        compensate: async (output) => {
+          const created = output.created as string[];
+          if (created.length > 0) {
+            await this.deleteUsersInApp(appId, created, cleanupOptions);
+          }
+        },
+      },
+      {
+        name: 'create-room',
+        run: async (outputs) => {
+          const targetAppId = resolveAppId(outputs);
+          const chatName = this.createScopedChatName(targetAppId, chatId);
+          try {
+            await this.createChatRoomInApp(targetAppId, chatId, roomData, requestOptions);
+          } catch (error) {
+            if (!(error instanceof EthoraConflictError)) {
+              throw error;
+            }
+            return { chatName, created: false };
+          }
+          return { chatName, created: true };
+        },
+        compensate: async (output) => {
+          if (output.created) {
+            await this.deleteChatRoomInApp(appId, chatId, cleanupOptions);
+          }
+        },
+      },
+      {
+        name: 'grant-access',
+        run: async (outputs) => {
+          const targetAppId = resolveAppId(outputs);
+          if (memberIds.length === 0) {
+            return { members: [], granted: [] };
+          }
+          const members = this.createScopedMembers(targetAppId, memberIds);
+          // Only access granted by this run is revoked on rollback, so an existing room's members are kept
+          const current = outputs['create-room']?.created
+            ? new Set<string>()
+            : new Set(await this.listRoomMembers(outputs['create-room']?.chatName as string, requestOptions));
+          const granted = members.filter((member) => !current.has(member));
+          if (granted.length > 0) {
+            await this.grantUserAccessToChatRoomInApp(targetAppId, chatId, granted, requestOptions);
+          }
+          return { members, granted };
+        },
+        compensate: async (output) => {
+          const granted = (output.granted as string[] | undefined) || [];
+          if (granted.length > 0) {
+            await this.removeUserAccessFromChatRoomInApp(appId, chatId, granted, cleanupOptions);
+          }
+        },
       },
+    ];
+
+    if (!request.appId) {
+      steps.unshift({
+        name: 'create-app',
+        run: async () => {
+          const { app } = await this.createApp(request.app as CreateAppRequest, requestOptions);
+          return { appId: app.id };
+        },
+        compensate: async (output) => {
+          await this.deleteApp(output.appId as UUID, cleanupOptions);
+        },
+      });
+    }
+
+    this.logger.info(`Provisioning workspace ${chatId}${request.appId ? ` in app ${request.appId}` : ''}`);
+    const journal = await runSaga('provisionWorkspace', steps, { resumeFrom, compensate, onStep });
+    const outputOf = (name: string) => journal.find((entry) => entry.name === name)?.output || {};
+    return {
+      appId: request.appId || (outputOf('create-app').appId as UUID),
+      chatName: outputOf('create-room').chatName as string,
+      members: outputOf('grant-access').members as string[],
+      steps: journal,
+    };
+  }
+
+  /**
+   * Compares a tenant manifest with the live app and lists the changes `applyTenant` would make
+   *
+   * The app is looked up by `app.id`, or by `displayName` when no ID is given.
+   * Users, rooms (by `chatId`), bot settings, tokens (by label) and room
+   * members are diffed; nothing is changed. Branding differences of an
+   * existing app are reported as warnings because the SDK cannot update apps.
+   * Render the plan with `formatTenantPlan`.
+   *
+   * @param manifest - The desired state, e.g. from `parseTenantManifest`
+   * @param options - `prune` also plans removal of unlisted tokens and room members
+   */
+  async planTenant(
+    manifest: TenantManifest,
+    options: TenantPlanOptions = {},
+  ): Promise<TenantPlan> {
+    const { prune = false, ...requestOptions } = options;
+    const { id: _id, ...branding } = manifest.app;
+    const plan: TenantPlan = { changes: [], warnings: [] };
+    const memberships: TenantChange[] = [];
+
+    const app = await this.findTenantApp(manifest.app, requestOptions);
+    plan.appId = app?.id;
+    if (!app) {
+      plan.changes.push({ action: 'create', resource: 'app', id: branding.displayName });
+      if (manifest.app.id) {
+        plan.warnings.push(`app ${manifest.app.id} does not exist; the new app gets an ID assigned by the server`);
+      }
+    } else {
+      const fields = Object.keys(diffFields(app, branding));
+      if (fields.length > 0) {
+        plan.warnings.push(`app ${app.id} differs in ${fields.join(', ')}; apps cannot be updated, the live values are kept`);
+      }
+    }
+
+    for (const { userId, ...userData } of manifest.users || []) {
+      const live = app && (await this.findAppUser(app.id, userId, requestOptions));
+      const desired = Object.fromEntries(
+        Object.entries(userData).filter(([field]) => USER_DRIFT_FIELDS.includes(field)),
+      );
+      const diff = live ? diffFields(live, desired) : {};
+      if (!live) {
+        plan.changes.push({ action: 'create', resource: 'user', id: String(userId) });
+      } else if (Object.keys(diff).length > 0) {
+        plan.changes.push({ action: 'update', resource: 'user', id: String(userId), diff });
+      }
+    }
+
+    // Uncapped: a truncated listing would plan existing rooms as new
+    const liveRooms = app
+      ? await collectAll(this.iterateChatsInApp(app.id, {}, requestOptions), { maxItems: Infinity })
+      : [];
+    for (const room of manifest.rooms || []) {
+      const { chatId, members, ...roomData } = room;
+      const chatName = app ? this.createScopedChatName(app.id, chatId) : String(chatId);
+      const live = app && liveRooms.find((chat) => matchesChatName(chat, chatName));
+      const diff = live ? diffFields(live, { title: roomData.title, description: roomData.description }) : {};
+      if (!live) {
+        plan.changes.push({ action: 'create', resource: 'room', id: String(chatId) });
+      } else if (Object.keys(diff).length > 0) {
+        plan.changes.push({ action: 'update', resource: 'room', id: String(chatId), diff });
+      }
+      if (!members) {
+        continue;
+      }
+
+      const prefix = app ? `${app.id}_` : '';
+      const current = live ? await this.listRoomMembers(chatName, requestOptions) : [];
+      const desired = members.map(String);
+      const missing = desired.filter((member) => !current.includes(`${prefix}${member}`));
+      const extra = current
+        .map((member) => (member.startsWith(prefix) ? member.slice(prefix.length) : member))
+        .filter((member) => !desired.includes(member));
+      if (missing.length > 0) {
+        memberships.push({ action: 'create', resource: 'membership', id: String(chatId), members: missing });
+      }
+      if (prune && extra.length > 0) {
+        memberships.push({ action: 'delete', resource: 'membership', id: String(chatId), members: extra });
+      }
+    }
+
+    if (manifest.bot) {
+      const live = app ? await this.findAppBotSettings(app.id, requestOptions) : {};
+      const diff = diffFields(live, manifest.bot);
+      if (Object.keys(diff).length > 0) {
+        plan.changes.push({ action: 'update', resource: 'bot', id: 'bot', diff });
+      }
+    }
+
+    const labels = manifest.tokens || [];
+    const liveTokens = app
+      ? (await this.listAppTokens(app.id, requestOptions)).items.filter((token) => !token.revokedAt)
+      : [];
+    for (const label of labels) {
+      if (!liveTokens.some((token) => token.label === label)) {
+        plan.changes.push({ action: 'create', resource: 'token', id: label });
+      }
+    }
+    if (prune) {
+      for (const token of liveTokens.filter((live) => !labels.includes(live.label as string))) {
+        plan.changes.push({ action: 'delete', resource: 'token', id: token.label || token.id, liveId: token.id });
+      }
+    }
+
+    plan.changes.push(...memberships);
+    return plan;
+  }
+
+  /**
+   * Plans a tenant manifest and performs the changes
+   *
+   * Changes run in plan order: app, users, rooms, bot, tokens, memberships. A
+   * failure stops the run; applying the manifest again only performs what is
+   * still missing.
+   *
+   * @param manifest - The desired state, e.g. from `parseTenantManifest`
+   * @param options - `prune` also removes unlisted tokens and room members
+   * @returns The applied plan and the created tokens with their secrets
+   */
+  async applyTenant(
+    manifest: TenantManifest,
+    options: TenantPlanOptions = {},
+  ): Promise<TenantApplyResult> {
+    const { prune: _prune, ...requestOptions } = options;
+    const plan = await this.planTenant(manifest, options);
+    const changesOf = (resource: TenantResource, action: TenantChange['action']) =>
+      plan.changes.filter((change) => change.resource === resource && change.action === action);
+    const valuesOf = (change: TenantChange) =>
+      Object.fromEntries(Object.entries(change.diff || {}).map(([field, { to }]) => [field, to]));
+    this.logger.info(`applyTenant: applying ${plan.changes.length} change(s)`, {
+      operation: 'applyTenant',
+      appId: plan.appId,
     });
+
+    let appId = plan.appId as UUID;
+    if (!appId) {
+      const { id: _id, ...branding } = manifest.app;
+      appId = (await this.createApp(branding, requestOptions)).app.id;
+    }
+
+    const newUserIds = changesOf('user', 'create').map((change) => change.id);
+    if (newUserIds.length > 0) {
+      const usersList = (manifest.users || [])
+        .filter((user) => newUserIds.includes(String(user.userId)))
+        .map(({ userId, ...userData }) => this.buildNewUser(userId, userData));
+      const report = await this.createUsersInAppBulk(appId, { bypassEmailConfirmation: true, usersList }, requestOptions);
+      if (report.failed.length > 0) {
+        throw new EthoraApiError(
+          `applyTenant: creating users failed: ${report.failed.map((failure) => `${failure.id} (${failure.reason})`).join(', ')}`,
+          { method: 'POST', url: `${this.baseEthoraUrl}/v2/apps/${appId}/users/batch` },
+        );
+      }
+    }
+    const userUpdates = changesOf('user', 'update').map((change) => ({
+      xmppUsername: `${appId}_${change.id}`,
+      ...valuesOf(change),
+    }));
+    if (userUpdates.length > 0) {
+      await this.updateUsersBulk(userUpdates, requestOptions);
+    }
+
+    for (const change of changesOf('room', 'create')) {
+      const { chatId, members: _members, ...roomData } = (manifest.rooms || []).find(
+        (room) => String(room.chatId) === change.id,
+      ) as TenantManifestRoom;
+      await this.createChatRoomInApp(appId, chatId, roomData, requestOptions);
+    }
+    for (const change of changesOf('room', 'update')) {
+      await this.updateChatRoomInApp(appId, change.id, valuesOf(change), requestOptions);
+    }
+
+    for (const change of changesOf('bot', 'update')) {
+      await this.updateAppBot(appId, valuesOf(change), requestOptions);
+    }
+
+    const createdTokens: AppToken[] = [];
+    for (const change of changesOf('token', 'create')) {
+      createdTokens.push((await this.createAppToken(appId, { label: change.id }, requestOptions)).appToken);
+    }
+    for (const change of changesOf('token', 'delete')) {
+      await this.revokeAppToken(appId, change.liveId as string, requestOptions);
+    }
+
+    for (const change of changesOf('membership', 'create')) {
+      await this.grantUserAccessToChatRoomInApp(appId, change.id, change.members as string[], requestOptions);
+    }
+    for (const change of changesOf('membership', 'delete')) {
+      await this.removeUserAccessFromChatRoomInApp(appId, change.id, change.members as string[], requestOptions);
+    }
+
+    return { appId, plan, createdTokens };
+  }
+
+  /**
+   * Exports an app into a versioned, JSON-serializable snapshot
+   *
+   * The snapshot holds the app's branding, its rooms with their members, the
+   * users, the bot settings and the labels of the active tokens. Passwords and
+   * token secrets cannot be read and are not exported. Users are listed with
+   * `getUsers`: every user of the configured app, or the room members of
+   * other apps. The API cannot list another app's users, so its users that
+   * are in no room are not exported; export such an app with an SDK instance
+   * configured for it.
+   *
+   * @param appId - The app to export
+   * @returns A snapshot that `importApp` can restore
+   */
+  async exportApp(appId: UUID, options: RequestOptions = {}): Promise<AppSnapshot> {
+    const { app } = await this.getApp(appId, options);
+    const prefix = `${appId}_`;
+    const shortId = (name: string) => {
+      const base = name.split('@')[0];
+      return base.startsWith(prefix) ? base.slice(prefix.length) : base;
+    };
+
+    // Uncapped: a backup must not silently drop rooms
+    const chats = await collectAll(
+      this.iterateChatsInApp(appId, { includeMembers: true }, options),
+      { maxItems: Infinity },
+    );
+    const rooms: TenantManifestRoom[] = [];
+    for (const chat of chats) {
+      const chatName = (chat.name || chat.id).split('@')[0];
+      const members = chat.members
+        ? chat.members.map((member) => member.xmppUsername).filter((member): member is string => !!member)
+        : await this.listRoomMembers(chatName, options);
+      rooms.push({
+        chatId: shortId(chatName),
+        title: chat.title || shortId(chatName),
+        ...pickFields(chat, ['description', 'type']),
+        members: members.map(shortId),
+      });
+    }
+
+    const users = new Map<string, SnapshotUser>();
+    const sources = String(appId) === this.secrets.chatAppId
+      ? [this.iterateUsers({}, options)]
+      : rooms.map((room) => this.iterateUsers({ chatName: `${prefix}${room.chatId}` }, options));
+    for (const source of sources) {
+      for await (const user of source) {
+        const userId = user.xmppUsername && shortId(user.xmppUsername);
+        if (userId && !users.has(userId)) {
+          users.set(userId, { userId, ...pickFields(user, SNAPSHOT_USER_FIELDS) });
+        }
+      }
+    }
+
+    const bot = pickFields(await this.findAppBotSettings(appId, options), Object.keys(UPDATE_APP_BOT_REQUEST.schema));
+    const { items: tokens } = await this.listAppTokens(appId, options);
+    this.logger.info(`Exported app ${appId}: ${rooms.length} room(s), ${users.size} user(s)`);
+
+    return {
+      version: APP_SNAPSHOT_VERSION,
+      exportedAt: new Date().toISOString(),
+      sourceAppId: appId,
+      app: { displayName: app.displayName || String(appId), ...pickFields(app, Object.keys(CREATE_APP_REQUEST.schema)) },
+      rooms,
+      users: [...users.values()],
+      ...(Object.keys(bot).length > 0 && { bot }),
+      tokens: tokens
+        .filter((token) => !token.revokedAt && token.label)
+        .map((token) => token.label as string),
+    };
+  }
+
+  /**
+   * Restores a snapshot from `exportApp` into a new app or `targetAppId`
+   *
+   * The snapshot is applied as a tenant manifest (see `applyTenant`), so an
+   * existing target app only receives what it is missing. Roles and tags are
+   * set afterwards. New users get a random password that is not returned, so
+   * they sign in after a password reset. New tokens get new secrets, returned
+   * in `createdTokens`.
+   *
+   * @param snapshot - The snapshot to restore
+   * @param options - Target app, ID remapping and request options
+   * @throws EthoraValidationError for snapshots of an unsupported version
+   */
+  async importApp(
+    snapshot: AppSnapshot,
+    options: ImportAppOptions = {},
+  ): Promise<TenantApplyResult> {
+    const { targetAppId, remapIds = (id: string) => id, ...requestOptions } = options;
+    if (snapshot.version !== APP_SNAPSHOT_VERSION) {
+      throw new EthoraValidationError(
+        `importApp: unsupported snapshot version ${snapshot.version} (expected ${APP_SNAPSHOT_VERSION})`,
+        { fields: [{ path: 'version', message: `expected ${APP_SNAPSHOT_VERSION}` }] },
+      );
+    }
+
+    // Validate before anything is created
+    parseTenantManifest(snapshotToManifest(snapshot, targetAppId || snapshot.sourceAppId, remapIds));
+    const appId = targetAppId || (await this.createApp(snapshot.app, requestOptions)).app.id;
+    const manifest = snapshotToManifest(snapshot, appId, remapIds);
+    // Without this, buildNewUser would fall back to the guessable `password_<userId>`
+    manifest.users = manifest.users?.map((user) => ({
+      password: randomBytes(24).toString('base64url'),
+      ...user,
+    }));
+    const result = await this.applyTenant(manifest, requestOptions);
+
+    const labelled = snapshot.users
+      .filter((user) => user.roles || user.tags)
+      .map((user) => ({
+        xmppUsername: `${appId}_${remapIds(String(user.userId), 'user')}`,
+        ...pickFields(user, ['roles', 'tags']),
+      }));
+    if (labelled.length > 0) {
+      await this.updateUsersBulk(labelled, requestOptions);
+    }
+    return result;
+  }
+
+  /**
+   * Finds the app of a tenant manifest by ID, or by display name
+   */
+  private async findTenantApp(
+    manifestApp: TenantManifestApp,
+    options: RequestOptions,
+  ): Promise<App | undefined> {
+    if (manifestApp.id) {
+      try {
+        return (await this.getApp(manifestApp.id, options)).app;
+      } catch (error) {
+        if (!(error instanceof EthoraNotFoundError)) {
+          throw error;
+        }
+        return undefined;
+      }
+    }
+    for await (const app of this.iterateApps({}, options)) {
+      if (app.displayName === manifestApp.displayName) {
+        return app;
+      }
+    }
+    return undefined;
+  }
+
+  private async findAppUser(
+    appId: UUID,
+    userId: UUID,
+    options: RequestOptions,
+  ): Promise<ChatUser | undefined> {
+    const [xmppUsername] = this.createScopedMembers(appId, userId);
+    try {
+      return (await this.getAppUserByXmppUsername(xmppUsername, options)).user;
+    } catch (error) {
+      if (error instanceof EthoraNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async findAppBotSettings(
+    appId: UUID,
+    options: RequestOptions,
+  ): Promise<Record<string, unknown>> {
+    try {
+      return toAppBotSettings(await this.getAppBot(appId, options));
+    } catch (error) {
+      // Apps without a configured bot
+      if (error instanceof EthoraNotFoundError) {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async syncRoomMembersWith(
+    appId: UUID,
+    chatId: UUID,
+    desiredUserIds: UUID[],
+    options: SyncRoomMembersOptions = {},
+    actions: Record<'grant' | 'revoke', (members: string[], options: RequestOptions) => Promise<ApiResponse>>,
+  ): Promise<RoomMembersSyncReport> {
+    const {
+      dryRun = false,
+      chunkSize = DEFAULT_BULK_CHUNK_SIZE,
+      concurrency = 1,
+      continueOnError = false,
+      ...requestOptions
+    } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new EthoraValidationError('syncRoomMembers: chunkSize must be a positive integer', {
+        fields: [{ path: 'chunkSize', message: 'expected a positive integer' }],
+      });
+    }
+
+    const chatName = this.createScopedChatName(appId, chatId);
+    const desired = new Set(this.createScopedMembers(appId, desiredUserIds));
+    const current = new Set(await this.listRoomMembers(chatName, requestOptions));
+    const report: RoomMembersSyncReport = {
+      chatName,
+      dryRun,
+      toGrant: [...desired].filter((member) => !current.has(member)),
+      toRevoke: [...current].filter((member) => !desired.has(member)),
+      unchanged: [...desired].filter((member) => current.has(member)),
+      granted: [],
+      revoked: [],
+      errors: [],
+    };
+    this.logger.info(
+      `Syncing members of ${chatName}: ${report.toGrant.length} to grant, ${report.toRevoke.length} to revoke${dryRun ? ' (dry run)' : ''}`,
+    );
+    if (dryRun) {
+      return report;
+    }
+
+    const steps = [
+      ...chunk(report.toGrant, chunkSize).map((members) => ({ action: 'grant' as const, members })),
+      ...chunk(report.toRevoke, chunkSize).map((members) => ({ action: 'revoke' as const, members })),
+    ];
+    await mapWithConcurrency(steps, concurrency, async ({ action, members }) => {
+      try {
+        await actions[action](members, requestOptions);
+      } catch (error) {
+        if (!continueOnError) {
+          throw error;
+        }
+        report.errors.push({ items: members, error: error as Error });
+        return;
+      }
+      (action === 'grant' ? report.granted : report.revoked).push(...members);
+    });
+    return report;
+  }
+
+  private async ensureUserWith(
+    appId: UUID,
+    userId: UUID,
+    userData: Record<string, unknown> | undefined,
+    options: EnsureOptions,
+    create: (requestOptions: RequestOptions) => Promise<boolean>,
+  ): Promise<EnsureResult<ChatUser>> {
+    const { updateOnDrift = false, ...requestOptions } = options;
+    let created: boolean;
+    try {
+      created = await create(requestOptions);
+    } catch (error) {
+      if (!(error instanceof EthoraConflictError)) {
+        throw error;
+      }
+      created = false;
+    }
+
+    const [xmppUsername] = this.createScopedMembers(appId, userId);
+    const { user } = await this.getAppUserByXmppUsername(xmppUsername, requestOptions);
+    const drift = created || !updateOnDrift ? {} : this.findDrift(user, userData, USER_DRIFT_FIELDS);
+    if (Object.keys(drift).length === 0) {
+      return { created, updated: false, resource: user };
+    }
+
+    this.logger.info(`User ${xmppUsername} differs in ${Object.keys(drift).join(', ')}, updating`);
+    await this.updateUsers([{ xmppUsername, ...drift }], requestOptions);
+    return { created, updated: true, resource: { ...user, ...drift } };
+  }
+
+  /**
+   * Reads the batch row of a user created by `ensureUser`: false when the user
+   * already existed, true when it was created or no row for the user was
+   * reported (the successful HTTP status then decides)
+   *
+   * @throws EthoraApiError when the row reports a failure
+   */
+  private isUserCreated(rows: UserBatchResult[], userId: UUID, url: string): boolean {
+    // Another user's row says nothing about this one, so only the user's own row is read
+    const row = rows.find((candidate) => candidate.uuid === String(userId));
+    if (row?.status === 'failed') {
+      throw new EthoraApiError(`Creating user ${userId} failed: ${row.reason}`, {
+        method: 'POST',
+        url,
+        body: row.raw,
+      });
+    }
+    return row?.status !== 'already-exists';
+  }
+
+  private async ensureChatRoomWith(
+    appId: UUID,
+    chatId: UUID,
+    roomData: Record<string, unknown> | undefined,
+    options: EnsureOptions,
+    create: (requestOptions: RequestOptions) => Promise<ChatRoomResponse>,
+    update: (drift: Record<string, string>, requestOptions: RequestOptions) => Promise<ApiResponse>,
+  ): Promise<EnsureResult<ChatRoom>> {
+    const { updateOnDrift = false, ...requestOptions } = options;
+    try {
+      const { chat } = await create(requestOptions);
+      return { created: true, updated: false, resource: chat };
+    } catch (error) {
+      if (!(error instanceof EthoraConflictError)) {
+        throw error;
+      }
+    }
+
+    const chatName = this.createScopedChatName(appId, chatId);
+    const room: ChatRoom = (await this.findChatRoom(appId, chatName, requestOptions)) || {
+      id: chatName,
+      name: chatName,
+    };
+    const drift = updateOnDrift ? this.findDrift(room, roomData, ROOM_DRIFT_FIELDS) : {};
+    if (Object.keys(drift).length === 0) {
+      return { created: false, updated: false, resource: room };
+    }
+
+    this.logger.info(`Chat room ${chatName} differs in ${Object.keys(drift).join(', ')}, updating`);
+    await update(drift, requestOptions);
+    return { created: false, updated: true, resource: { ...room, ...drift } };
+  }
+
+  private async ensureAccessWith(
+    appId: UUID,
+    chatId: UUID,
+    userIds: UUID | UUID[],
+    options: RequestOptions | undefined,
+    grant: (members: string[]) => Promise<ApiResponse>,
+  ): Promise<EnsureResult<RoomAccess>> {
+    const chatName = this.createScopedChatName(appId, chatId);
+    const members = this.createScopedMembers(appId, userIds);
+    const current = new Set(await this.listRoomMembers(chatName, options));
+    const granted = members.filter((member) => !current.has(member));
+
+    if (granted.length > 0) {
+      try {
+        await grant(granted);
+      } catch (error) {
+        // Members added concurrently are reported as already existing
+        if (!(error instanceof EthoraConflictError)) {
+          throw error;
+        }
+      }
+    }
+    return { created: granted.length > 0, updated: false, resource: { chatName, members, granted } };
+  }
+
+  /**
+   * Lists the XMPP usernames of a chat room's members
+   */
+  private async listRoomMembers(chatName: string, options?: RequestOptions): Promise<string[]> {
+    const members: string[] = [];
+    for await (const user of this.iterateUsers({ chatName }, options)) {
+      if (user.xmppUsername) {
+        members.push(user.xmppUsername);
+      }
+    }
+    return members;
+  }
+
+  /**
+   * Finds a chat room of an app by its (short or full) name
+   */
+  private async findChatRoom(
+    appId: UUID,
+    chatName: string,
+    options?: RequestOptions,
+  ): Promise<ChatRoom | undefined> {
+    for await (const chat of this.iterateChatsInApp(appId, {}, options)) {
+      if (matchesChatName(chat, chatName)) {
+        return chat;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the requested fields whose values differ from the existing resource
+   */
+  private findDrift(
+    existing: object,
+    requested: Record<string, unknown> | undefined,
+    fields: readonly string[],
+  ): Record<string, string> {
+    const drift: Record<string, string> = {};
+    for (const field of fields) {
+      const value = requested?.[field];
+      if (typeof value === 'string' && (existing as Record<string, unknown>)[field] !== value) {
+        drift[field] = value;
+      }
+    }
+    return drift;
+  }
+
+  /**
+   * Iterates over all apps, fetching one page per `pageSize` items on demand
+   *
+   * @param params - Sorting parameters (pagination is handled by the iterator)
+   * @param options - Page size and request options applied to every page
+   */
+  iterateApps(
+    params?: Omit<ListAppsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<App> {
+    const { pageSize, ...requestOptions } = options || {};
+    return paginate((page) => this.listApps({ ...params, ...page }, requestOptions), pageSize);
+  }
+
+  /**
+   * Iterates over all chat rooms of an app, fetching one page per `pageSize` items on demand
+   */
+  iterateChatsInApp(
+    appId: UUID,
+    params?: Omit<ListAppChatsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatRoom> {
+    const { pageSize, ...requestOptions } = options || {};
+    return paginate(
+      (page) => this.listChatsInApp(appId, { ...params, ...page }, requestOptions),
+      pageSize,
+    );
+  }
+
+  /**
+   * Iterates over all users matching `params` (e.g. the members of `chatName`),
+   * fetching one page per `pageSize` items (at most 500) on demand
+   */
+  iterateUsers(
+    params?: Omit<GetUsersQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatUser> {
+    const { pageSize, ...requestOptions } = options || {};
+    return paginate((page) => this.getUsers({ ...params, ...page }, requestOptions), pageSize);
+  }
+
+  /**
+   * Iterates over all chat rooms of a user, fetching one page per `pageSize` items on demand
+   */
+  iterateUserChats(
+    userId: UUID,
+    params?: Omit<GetUserChatsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatRoom> {
+    const { pageSize, ...requestOptions } = options || {};
+    return paginate(
+      (page) => this.getUserChats(userId, { ...params, ...page }, requestOptions),
+      pageSize,
+    );
+  }
+
+  iterateUserChatsInApp(
+    appId: UUID,
+    userId: UUID,
+    params?: Omit<GetUserChatsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatRoom> {
+    const { pageSize, ...requestOptions } = options || {};
+    return paginate(
+      (page) => this.getUserChatsInApp(appId, userId, { ...params, ...page }, requestOptions),
+      pageSize,
+    );
   }
 }
 
@@ -936,10 +3222,9 @@ export class EthoraSDKService implements ChatRepository {
  */
 let repositoryInstance: EthoraSDKService | null = null;
 
-export function getEthoraSDKService(config?: {
-  chatAppId?: string;
-  chatAppSecret?: string;
-}): EthoraSDKService {
+export function getEthoraSDKService(
+  config?: EthoraSDKServiceConfig,
+): EthoraSDKService {
   if (!repositoryInstance || config) {
     const newService = new EthoraSDKService(config);
     if (!repositoryInstance) {
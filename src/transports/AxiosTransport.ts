@@ -0,0 +1,143 @@
+/**
+ * Axios-based HTTP transport (default)
+ *
+ * @format
+ */
+
+import http from 'http';
+import https from 'https';
+import type { Socket } from 'net';
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import type { Transport, TransportRequest, TransportResponse } from '../types';
+import { DEFAULT_TIMEOUT } from '../config/secrets';
+import { EthoraAbortError, EthoraNetworkError, EthoraTimeoutError } from '../errors';
+
+/**
+ * AxiosTransport options
+ */
+export interface AxiosTransportOptions {
+  /**
+   * Axios instance to send requests with (e.g. one carrying your own
+   * interceptors). A new instance is created when omitted.
+   */
+  client?: AxiosInstance;
+  /** Connect timeout in milliseconds, applied to the instance created by the transport */
+  connectTimeoutMs?: number;
+}
+
+/**
+ * Wraps an HTTP(S) agent so sockets that fail to connect within `connectMs` are destroyed
+ *
+ * @param agent - The agent to wrap
+ * @param connectMs - Connect timeout in milliseconds
+ * @returns The same agent, with connect timeouts enforced
+ */
+function withConnectTimeout<A extends http.Agent>(agent: A, connectMs: number): A {
+  const target = agent as unknown as {
+    createConnection: (...args: unknown[]) => Socket;
+  };
+  const createConnection = target.createConnection.bind(agent);
+
+  target.createConnection = (...args: unknown[]) => {
+    const socket = createConnection(...args);
+    const timer = setTimeout(() => {
+      socket.destroy(
+        Object.assign(new Error(`Connection timed out after ${connectMs}ms`), {
+          code: 'ETIMEDOUT',
+        }),
+      );
+    }, connectMs);
+    const clear = () => clearTimeout(timer);
+    socket.once('connect', clear);
+    socket.once('close', clear);
+    return socket;
+  };
+  return agent;
+}
+
+/**
+ * Flattens Axios response headers into a plain object with lower-case names
+ */
+function normalizeHeaders(headers: unknown): Record<string, string> {
+  const source =
+    headers && typeof (headers as { toJSON?: unknown }).toJSON === 'function'
+      ? (headers as { toJSON: () => Record<string, unknown> }).toJSON()
+      : ((headers || {}) as Record<string, unknown>);
+
+  const normalized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(source)) {
+    if (value !== undefined && value !== null) {
+      normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Transport that sends requests through an Axios instance
+ */
+export class AxiosTransport implements Transport {
+  readonly client: AxiosInstance;
+
+  constructor(options: AxiosTransportOptions = {}) {
+    const connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_TIMEOUT.connect;
+    this.client =
+      options.client ||
+      axios.create({
+        timeout: DEFAULT_TIMEOUT.total,
+        httpAgent: withConnectTimeout(new http.Agent(), connectTimeoutMs),
+        httpsAgent: withConnectTimeout(new https.Agent(), connectTimeoutMs),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const { method, url, requestId } = request;
+
+    try {
+      const response = await this.client.request<T>({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.data,
+        timeout: request.timeoutMs,
+        signal: request.signal,
+      });
+      return {
+        status: response.status,
+        headers: normalizeHeaders(response.headers),
+        data: response.data,
+      };
+    } catch (error) {
+      const context = { method, url, requestId, cause: error };
+
+      if (axios.isCancel(error)) {
+        throw new EthoraAbortError(`[${method}] ${url} was aborted`, context);
+      }
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+
+      const axiosError = error as AxiosError<T>;
+      if (axiosError.response) {
+        return {
+          status: axiosError.response.status,
+          headers: normalizeHeaders(axiosError.response.headers),
+          data: axiosError.response.data,
+        };
+      }
+      if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+        throw new EthoraTimeoutError(
+          `[${method}] ${url} timed out: ${axiosError.message}`,
+          context,
+        );
+      }
+      throw new EthoraNetworkError(
+        `[${method}] ${url} network error: ${axiosError.message}`,
+        context,
+      );
+    }
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Zero-dependency HTTP transport built on the global `fetch`
+ *
+ * Suitable for edge and serverless runtimes. `fetch` has no separate connect
+ * phase, so only the total timeout (`timeoutMs`) is enforced.
+ *
+ * @format
+ */
+
+import type { Transport, TransportRequest, TransportResponse } from '../types';
+import { EthoraAbortError, EthoraNetworkError, EthoraTimeoutError } from '../errors';
+
+/**
+ * FetchTransport options
+ */
+export interface FetchTransportOptions {
+  /** `fetch` implementation to use. Defaults to `globalThis.fetch` */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Parses a response body as JSON when possible, falling back to raw text
+ */
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Transport that sends requests with the Fetch API
+ */
+export class FetchTransport implements Transport {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchImpl = options.fetch || globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new Error('FetchTransport requires a global fetch implementation or options.fetch');
+    }
+    this.fetchImpl = fetchImpl;
+  }
+
+  async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const { method, url, requestId, signal } = request;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeoutMs);
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    try {
+      const response = await this.fetchImpl(url, {
+        method,
+        headers: request.headers,
+        body: request.data === undefined ? undefined : JSON.stringify(request.data),
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        headers,
+        data: parseBody(await response.text()) as T,
+      };
+    } catch (error) {
+      const context = { method, url, requestId, cause: error };
+      if (timedOut) {
+        throw new EthoraTimeoutError(
+          `[${method}] ${url} timed out after ${request.timeoutMs}ms`,
+          context,
+        );
+      }
+      if (signal?.aborted) {
+        throw new EthoraAbortError(`[${method}] ${url} was aborted`, context);
+      }
+      throw new EthoraNetworkError(
+        `[${method}] ${url} network error: ${error instanceof Error ? error.message : String(error)}`,
+        context,
+      );
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
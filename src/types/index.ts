@@ -2,6 +2,10 @@
  * Type definitions for the Ethora SDK
  */
 
+import type { EthoraApiError } from "../errors";
+import type { JwtKeyring } from "../utils/keyring";
+import type { RetryPolicy } from "../utils/retry";
+
 /**
  * UUID type - can be a string or UUID object
  */
@@ -37,6 +41,47 @@ export interface ClientTokenPayload {
   };
 }
 
+/**
+ * Lifetime and registered claims of a JWT created by the SDK
+ */
+export interface TokenOptions {
+  /**
+   * Lifetime in seconds, or a duration string such as `'15m'` or `'12h'`.
+   * Defaults to `DEFAULT_TOKEN_TTL` for the token type
+   */
+  expiresIn?: number | string;
+  /** Delay before the token becomes valid (`nbf`), in the same format. Defaults to 0 */
+  notBefore?: number | string;
+  /** `iss` claim. Defaults to `DEFAULT_TOKEN_ISSUER` */
+  issuer?: string;
+  /** `aud` claim. Defaults to the app ID */
+  audience?: string | string[];
+}
+
+/**
+ * Token settings per token type
+ */
+export interface TokenConfig {
+  /** Server-to-server tokens, created for every API request */
+  server?: TokenOptions;
+  /** Client tokens created by `createChatUserJwtToken` */
+  client?: TokenOptions;
+}
+
+/**
+ * Options for `verifyJwtToken`
+ */
+export interface VerifyJwtOptions {
+  /** Accepted clock difference in seconds when checking `exp` and `nbf`. Defaults to 30 */
+  clockToleranceSec?: number;
+  /** Required `iss` claim; not checked when omitted */
+  issuer?: string;
+  /** Required `aud` claim; not checked when omitted */
+  audience?: string | string[];
+  /** Keys for tokens with a `kid` header. Defaults to the configured keyring */
+  keyring?: JwtKeyring;
+}
+
 /**
  * API response structure
  */
@@ -47,6 +92,547 @@ export interface ApiResponse {
   [key: string]: unknown;
 }
 
+/**
+ * Ethora app (tenant)
+ */
+export interface App {
+  /** App ID (the backend's `_id`) */
+  id: string;
+  displayName?: string;
+  domainName?: string;
+  appTagline?: string;
+  logoImage?: string;
+  sublogoImage?: string;
+  primaryColor?: string;
+  bundleId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * App API token
+ */
+export interface AppToken {
+  /** Token ID, used to revoke or rotate the token */
+  id: string;
+  label?: string;
+  /** Token secret; only returned when the token is created or rotated */
+  token?: string;
+  createdAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * Chat user
+ */
+export interface ChatUser {
+  /** User ID (the backend's `_id`) */
+  id: string;
+  /** External user UUID supplied when the user was created */
+  uuid?: string;
+  xmppUsername?: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+  profileImage?: string;
+  description?: string;
+  roles?: string[];
+  tags?: string[];
+}
+
+/**
+ * Chat room
+ */
+export interface ChatRoom {
+  /** Chat room ID (the backend's `_id`, or the room name when absent) */
+  id: string;
+  /** Room name (`<appId>_<chatId>`) */
+  name?: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  /** Room members, when requested with `includeMembers` */
+  members?: ChatUser[];
+  createdAt?: string;
+}
+
+/**
+ * Status of an asynchronous backend job
+ */
+export type JobStatus = "pending" | "running" | "completed" | "failed" | (string & {});
+
+/**
+ * Asynchronous batch job (e.g. bulk user creation)
+ */
+export interface BatchJob {
+  jobId: string;
+  status: JobStatus;
+  /** Number of items in the job */
+  total?: number;
+  /** Number of items processed so far */
+  processed?: number;
+  /** Per-item results reported by the backend */
+  results?: Array<Record<string, unknown>>;
+  createdAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Asynchronous broadcast job
+ */
+export interface BroadcastJob {
+  jobId: string;
+  status: JobStatus;
+  /** Number of target rooms */
+  total?: number;
+  /** Rooms processed so far */
+  processed?: number;
+  /** Rooms the message could not be sent to */
+  failed?: number;
+  createdAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Outcome of one user in a batch user-creation job
+ */
+export type UserBatchResultStatus = "created" | "already-exists" | "failed";
+
+/**
+ * Per-user result of a batch user-creation job
+ */
+export interface UserBatchResult {
+  status: UserBatchResultStatus;
+  uuid?: string;
+  email?: string;
+  xmppUsername?: string;
+  /** Why the user was not created (`failed` and `already-exists` only) */
+  reason?: string;
+  /** The result as reported by the backend */
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Per-user outcome of a finished batch user-creation job
+ */
+export interface UsersBatchJobResult {
+  job: BatchJob;
+  results: UserBatchResult[];
+  counts: Record<UserBatchResultStatus, number>;
+}
+
+/**
+ * Options for the chunked bulk operations, applied to every chunk request
+ */
+export interface BulkOptions extends RequestOptions {
+  /** Items per request */
+  chunkSize?: number;
+  /** Maximum number of chunks in flight. Defaults to 1 */
+  concurrency?: number;
+  /**
+   * Keeps processing the remaining chunks when one fails and records the
+   * failure in the report. When false (the default) the first failure rejects.
+   */
+  continueOnError?: boolean;
+}
+
+/**
+ * A chunk that could not be processed by a bulk operation
+ */
+export interface BulkChunkError<T> {
+  items: T[];
+  error: Error;
+}
+
+/**
+ * An item a resumable bulk operation could not process
+ */
+export interface BulkFailure {
+  id: string;
+  reason: string;
+}
+
+/**
+ * Consolidated, JSON-serializable result of a resumable bulk operation
+ *
+ * Pass it back as `resumeFrom` to retry only what has not succeeded yet.
+ */
+export interface BulkReport {
+  /** IDs processed successfully, including those carried over from `resumeFrom` */
+  succeeded: string[];
+  failed: BulkFailure[];
+  /** IDs not attempted because the run stopped early */
+  pending: string[];
+}
+
+/**
+ * Options for bulk operations that can resume from a previous report
+ */
+export interface ResumableBulkOptions extends BulkOptions {
+  /** Report of a previous run; its `succeeded` IDs are skipped */
+  resumeFrom?: BulkReport;
+}
+
+export interface CreateUsersBulkOptions extends ResumableBulkOptions {
+  /** Polling settings for the batch job of every chunk */
+  polling?: Omit<JobPollingOptions, "signal">;
+}
+
+/**
+ * Merged result of `updateUsersBulk`
+ */
+export interface UpdateUsersBulkReport {
+  /** Per-user results of every chunk, in input order */
+  results: UpdateUserResult[];
+  /** Number of results per status (`updated`, `not-found`, `skipped`, `failed`, ...) */
+  counts: Record<string, number>;
+  /** Chunks that failed as a whole (`continueOnError` only) */
+  errors: BulkChunkError<UpdateUserData>[];
+}
+
+/**
+ * Options for the `ensure*` operations
+ */
+export interface EnsureOptions extends RequestOptions {
+  /** Updates an existing resource whose fields differ from the requested ones. Defaults to false */
+  updateOnDrift?: boolean;
+}
+
+/**
+ * Result of an `ensure*` operation
+ */
+export interface EnsureResult<T> {
+  /** Whether the resource was missing and had to be created */
+  created: boolean;
+  /** Whether an existing resource was updated to match (`updateOnDrift`) */
+  updated: boolean;
+  resource: T;
+}
+
+/**
+ * Room membership ensured by `ensureAccess`
+ */
+export interface RoomAccess {
+  chatName: string;
+  /** XMPP usernames of every requested member */
+  members: string[];
+  /** Members that had to be granted access */
+  granted: string[];
+}
+
+/**
+ * Options for `syncRoomMembers`
+ */
+export interface SyncRoomMembersOptions extends BulkOptions {
+  /** Only computes the plan, without granting or revoking access. Defaults to false */
+  dryRun?: boolean;
+}
+
+/**
+ * Plan and outcome of `syncRoomMembers`; member lists hold XMPP usernames
+ */
+export interface RoomMembersSyncReport {
+  chatName: string;
+  dryRun: boolean;
+  /** Desired members missing from the room */
+  toGrant: string[];
+  /** Current members that are not desired */
+  toRevoke: string[];
+  /** Desired members already in the room */
+  unchanged: string[];
+  /** Members granted access (empty on a dry run) */
+  granted: string[];
+  /** Members whose access was removed (empty on a dry run) */
+  revoked: string[];
+  /** Chunks that failed (`continueOnError` only) */
+  errors: BulkChunkError<string>[];
+}
+
+/**
+ * JSON-serializable data recorded for a completed saga step
+ */
+export type SagaStepOutput = Record<string, unknown>;
+
+export type SagaStepStatus = 'completed' | 'failed' | 'compensated' | 'compensation-failed';
+
+/**
+ * Journal entry of one saga step
+ */
+export interface SagaStepRecord {
+  name: string;
+  status: SagaStepStatus;
+  /** What the step created, used to compensate or resume it */
+  output?: SagaStepOutput;
+  /** Error message of a failed step or compensation */
+  error?: string;
+  /** ISO timestamp of the last status change */
+  finishedAt: string;
+}
+
+/**
+ * Options for multi-step operations such as `provisionWorkspace`
+ */
+export interface SagaOptions {
+  /** Journal of a previous run; its completed steps are skipped */
+  resumeFrom?: SagaStepRecord[];
+  /** Undoes the completed steps when a step fails. Defaults to true */
+  compensate?: boolean;
+  /** Called with a copy of the journal after every change, e.g. to persist it */
+  onStep?: (steps: SagaStepRecord[]) => void | Promise<void>;
+}
+
+/**
+ * A user created by `provisionWorkspace`; fields default as for `createUser`
+ */
+export interface WorkspaceUser {
+  userId: UUID;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  password?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The chat room created by `provisionWorkspace`
+ */
+export interface WorkspaceRoom {
+  chatId: UUID;
+  title?: string;
+  type?: string;
+  [key: string]: unknown;
+}
+
+export interface ProvisionWorkspaceRequest {
+  /** Existing app to provision; when omitted an app is created from `app` */
+  appId?: UUID;
+  app?: CreateAppRequest;
+  room: WorkspaceRoom;
+  users?: WorkspaceUser[];
+  /** Users granted access to the room. Defaults to every user in `users` */
+  members?: UUID[];
+}
+
+export interface ProvisionWorkspaceOptions extends RequestOptions, SagaOptions {
+  /** Polling settings for the batch user-creation job */
+  polling?: Omit<JobPollingOptions, 'signal'>;
+}
+
+export interface ProvisionWorkspaceResult {
+  appId: UUID;
+  chatName: string;
+  /** XMPP usernames that have access to the room, including members that already had it */
+  members: string[];
+  /** Journal of the run; pass it as `resumeFrom` to re-run safely */
+  steps: SagaStepRecord[];
+}
+
+/**
+ * Desired state of a tenant app, read by `parseTenantManifest`
+ */
+export interface TenantManifest {
+  app: TenantManifestApp;
+  rooms?: TenantManifestRoom[];
+  bot?: UpdateAppBotRequest;
+  /** Labels of the app tokens that must exist */
+  tokens?: string[];
+  /** Users that must exist in the app */
+  users?: WorkspaceUser[];
+}
+
+export interface TenantManifestApp extends CreateAppRequest {
+  /** ID of the app; when omitted the app is matched by `displayName`, when not found a new app is planned */
+  id?: UUID;
+}
+
+export interface TenantManifestRoom {
+  chatId: UUID;
+  title: string;
+  description?: string;
+  type?: string;
+  /** User IDs that must have access to the room */
+  members?: UUID[];
+}
+
+export type TenantResource = 'app' | 'user' | 'room' | 'bot' | 'token' | 'membership';
+
+/**
+ * One change planned by `planTenant`
+ */
+export interface TenantChange {
+  action: 'create' | 'update' | 'delete';
+  resource: TenantResource;
+  /** Display name, user ID, room chatId or token label; `bot` for the bot */
+  id: string;
+  /** Fields an update changes, with the live and desired values */
+  diff?: Record<string, { from: unknown; to: unknown }>;
+  /** User IDs a membership change grants (create) or removes (delete) */
+  members?: string[];
+  /** Backend ID of the live resource, e.g. the token to revoke */
+  liveId?: string;
+}
+
+export interface TenantPlan {
+  /** ID of the live app; undefined when the app will be created */
+  appId?: UUID;
+  changes: TenantChange[];
+  /** Differences that `applyTenant` cannot reconcile */
+  warnings: string[];
+}
+
+export interface TenantPlanOptions extends RequestOptions {
+  /**
+   * Also removes tokens and room members that are not in the manifest.
+   * Defaults to false
+   */
+  prune?: boolean;
+}
+
+export interface TenantApplyResult {
+  appId: UUID;
+  /** The plan that was applied */
+  plan: TenantPlan;
+  /** Tokens created by the run; their secrets are only returned here */
+  createdTokens: AppToken[];
+}
+
+/**
+ * A user in an app snapshot
+ */
+export interface SnapshotUser extends WorkspaceUser {
+  username?: string;
+  profileImage?: string;
+  description?: string;
+  roles?: string[];
+  tags?: string[];
+}
+
+/**
+ * Versioned, JSON-serializable copy of an app's configuration, created by `exportApp`
+ */
+export interface AppSnapshot {
+  /** Snapshot format version (`APP_SNAPSHOT_VERSION`) */
+  version: number;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  sourceAppId: UUID;
+  app: CreateAppRequest;
+  /** Rooms with unscoped chat IDs and member user IDs */
+  rooms: TenantManifestRoom[];
+  users: SnapshotUser[];
+  bot?: UpdateAppBotRequest;
+  /** Labels of the active app tokens; token secrets are never exported */
+  tokens: string[];
+}
+
+export interface ImportAppOptions extends RequestOptions {
+  /** App to restore into; when omitted a new app is created */
+  targetAppId?: UUID;
+  /** Maps the snapshot's user and room IDs to the IDs used in the target app */
+  remapIds?: (id: string, resource: 'user' | 'room') => string;
+}
+
+/**
+ * Polling settings for the `waitFor*Job` helpers
+ */
+export interface JobPollingOptions {
+  /** Delay before the second poll in milliseconds. Defaults to 1000 */
+  intervalMs?: number;
+  /** Upper bound for the delay between polls in milliseconds. Defaults to 10000 */
+  maxIntervalMs?: number;
+  /** Factor the delay grows by after every poll. Defaults to 1.5 */
+  backoffFactor?: number;
+  /** Overall time to wait for a terminal state in milliseconds. Defaults to 300000 */
+  timeoutMs?: number;
+  /** Stops polling (rejecting with `EthoraAbortError`) when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Delivery progress of a broadcast job, in rooms
+ */
+export interface BroadcastProgress {
+  job: BroadcastJob;
+  /** Number of target rooms, when reported */
+  total?: number;
+  /** Rooms the message was delivered to */
+  delivered: number;
+  /** Rooms the message could not be delivered to */
+  failed: number;
+  /** Rooms not processed yet, when the total is reported */
+  pending?: number;
+}
+
+export interface WaitForBroadcastJobOptions extends JobPollingOptions {
+  /** Called after every poll */
+  onProgress?: (progress: BroadcastProgress) => void;
+}
+
+export interface WaitForUsersBatchJobOptions extends JobPollingOptions {
+  /** Called with the job state after every poll */
+  onProgress?: (job: BatchJob) => void;
+}
+
+/**
+ * Paginated list envelope
+ *
+ * `items` is always present; the other fields are set when the backend reports them.
+ */
+export interface PaginatedResponse<T> extends ApiResponse {
+  items: T[];
+  total?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AppResponse extends ApiResponse {
+  app: App;
+}
+
+export interface AppTokenResponse extends ApiResponse {
+  appToken: AppToken;
+}
+
+export interface ChatUserResponse extends ApiResponse {
+  user: ChatUser;
+}
+
+export interface ChatRoomResponse extends ApiResponse {
+  chat: ChatRoom;
+}
+
+export interface BatchJobResponse extends ApiResponse {
+  job: BatchJob;
+}
+
+export interface BroadcastJobResponse extends ApiResponse {
+  job: BroadcastJob;
+}
+
+export interface ProvisionAppResponse extends ApiResponse {
+  /** Rooms created by the provisioning run */
+  rooms: ChatRoom[];
+}
+
+/**
+ * Outcome for one user of an `updateUsers` call
+ */
+export interface UpdateUserResult {
+  xmppUsername: string;
+  /** Backend status, or `failed` when the SDK could not send the user's chunk (`updateUsersBulk`) */
+  status: "updated" | "not-found" | "skipped" | "failed" | (string & {});
+  /** The updated user, when `status` is `updated` */
+  user?: ChatUser;
+  /** Why the update failed, when `status` is `failed` */
+  reason?: string;
+}
+
+export interface UpdateUsersResponse extends ApiResponse {
+  results: UpdateUserResult[];
+}
+
 export interface CreateAppRequest {
   displayName: string;
   domainName?: string;
@@ -208,8 +794,164 @@ export interface GetUserChatsQueryParams {
   includeMembers?: boolean;
 }
 
+/**
+ * HTTP request handed to a Transport
+ */
+export interface TransportRequest {
+  /** Upper-case HTTP method */
+  method: string;
+  /** Fully-qualified URL, including the query string */
+  url: string;
+  /** Request headers (authentication headers are already included) */
+  headers: Record<string, string>;
+  /** JSON-serializable request body */
+  data?: unknown;
+  /** Timeout for this attempt in milliseconds */
+  timeoutMs: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+  /** Correlation ID of the call, also sent as the `x-request-id` header */
+  requestId?: string;
+}
+
+/**
+ * HTTP response returned by a Transport
+ */
+export interface TransportResponse<T = unknown> {
+  /** HTTP status code */
+  status: number;
+  /** Response headers with lower-case names */
+  headers: Record<string, string>;
+  /** Parsed response body (JSON when possible, raw text otherwise) */
+  data: T;
+}
+
+/**
+ * HTTP transport used by EthoraSDKService
+ *
+ * Implementations resolve with the response for every HTTP status (the
+ * service maps 4xx/5xx onto `EthoraApiError` subclasses) and reject only when
+ * no response was received, using `EthoraNetworkError`, `EthoraTimeoutError`
+ * or `EthoraAbortError`.
+ */
+export interface Transport {
+  request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Request as seen by `onRequest` hooks, before it is sent
+ */
+export interface HookRequest {
+  /** Upper-case HTTP method */
+  method: string;
+  /** Fully-qualified URL, including the query string */
+  url: string;
+  /** Request headers, including authentication and `x-request-id` */
+  headers: Record<string, string>;
+  /** JSON-serializable request body */
+  data?: unknown;
+  /** Timeout for each attempt in milliseconds */
+  timeoutMs: number;
+}
+
+/**
+ * Context shared by all hooks of a single ChatRepository call
+ */
+export interface HookContext {
+  /** Logical operation name, i.e. the ChatRepository method (e.g. `grantUserAccessToChatRoomInApp`) */
+  operation: string;
+  /** Correlation ID of the call */
+  requestId: string;
+  /** Time the call started (`Date.now()`) */
+  startedAt: number;
+}
+
+/**
+ * Context passed to `onRequest` hooks
+ */
+export interface RequestHookContext extends HookContext {
+  request: HookRequest;
+}
+
+/**
+ * Context passed to `onResponse` hooks
+ */
+export interface ResponseHookContext extends HookContext {
+  request: HookRequest;
+  response: TransportResponse;
+  /** Attempts that produced the response, or 0 when it came from an `onRequest` or `onError` hook */
+  attempts: number;
+  /** Time since the call started in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Context passed to `onError` hooks
+ */
+export interface ErrorHookContext extends HookContext {
+  request: HookRequest;
+  error: EthoraApiError;
+  /** Time since the call started in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Runs before a call is sent. Return `{ request }` to replace the request
+ * or `{ response }` to skip the network and answer the call directly.
+ */
+export type OnRequestHook = (
+  context: RequestHookContext
+) =>
+  | void
+  | { request: HookRequest }
+  | { response: TransportResponse }
+  | Promise<void | { request: HookRequest } | { response: TransportResponse }>;
+
+/**
+ * Runs after a successful response. Return `{ response }` to replace it.
+ */
+export type OnResponseHook = (
+  context: ResponseHookContext
+) => void | { response: TransportResponse } | Promise<void | { response: TransportResponse }>;
+
+/**
+ * Runs when a call fails after all retries. Return `{ response }` to recover
+ * with a response instead of rejecting; throw to replace the error.
+ */
+export type OnErrorHook = (
+  context: ErrorHookContext
+) => void | { response: TransportResponse } | Promise<void | { response: TransportResponse }>;
+
+/**
+ * Per-call options accepted by every asynchronous ChatRepository method
+ */
+export interface RequestOptions {
+  /** Retry policy overrides for this call, or `false` to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * Marks the call as safe to retry. GET, PUT and DELETE are retried by
+   * default; POST and PATCH only when this is `true`.
+   */
+  idempotent?: boolean;
+  /** Timeout for each attempt in milliseconds, overriding the instance's total timeout */
+  timeoutMs?: number;
+  /** Cancels the call (including queued attempts and retry back-off) when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for the `iterate*` methods, applied to every page request
+ */
+export interface PaginationOptions extends RequestOptions {
+  /** Number of items requested per page. Defaults to `DEFAULT_PAGE_SIZE` (100) */
+  pageSize?: number;
+}
+
 /**
  * Chat repository interface
+ *
+ * All methods reject with an `EthoraApiError` (or one of its subclasses)
+ * on failure.
  */
 export interface ChatRepository {
   /**
@@ -220,14 +962,15 @@ export interface ChatRepository {
   /**
    * Creates a client-side JWT token for a specific user ID
    */
-  createChatUserJwtToken(userId: UUID): string;
+  createChatUserJwtToken(userId: UUID, options?: TokenOptions): string;
 
   /**
    * Creates a user in the chat service
    */
   createUser(
     userId: UUID,
-    userData?: Record<string, unknown>
+    userData?: Record<string, unknown>,
+    options?: RequestOptions,
   ): Promise<ApiResponse>;
 
   /**
@@ -235,15 +978,17 @@ export interface ChatRepository {
    */
   createChatRoom(
     chatId: UUID,
-    roomData?: Record<string, unknown>
-  ): Promise<ApiResponse>;
+    roomData?: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<ChatRoomResponse>;
 
   /**
    * Grants a user access to a chat room
    */
   grantUserAccessToChatRoom(
     chatId: UUID,
-    userId: UUID | UUID[]
+    userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse>;
 
   /**
@@ -254,18 +999,19 @@ export interface ChatRepository {
    */
   removeUserAccessFromChatRoom(
     chatId: UUID,
-    userId: UUID | UUID[]
+    userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse>;
 
   /**
    * Deletes users from the chat service
    */
-  deleteUsers(userIds: UUID[]): Promise<ApiResponse>;
+  deleteUsers(userIds: UUID[], options?: RequestOptions): Promise<ApiResponse>;
 
   /**
    * Deletes a chat room by workspace ID
    */
-  deleteChatRoom(chatId: UUID): Promise<ApiResponse>;
+  deleteChatRoom(chatId: UUID, options?: RequestOptions): Promise<ApiResponse>;
 
   /**
    * Updates multiple users in the chat service
@@ -282,7 +1028,39 @@ export interface ChatRepository {
    * @param users - Array of user data to update (1-100 users)
    * @returns The API response with results array containing status for each user
    */
-  updateUsers(users: UpdateUserData[]): Promise<ApiResponse>;
+  updateUsers(users: UpdateUserData[], options?: RequestOptions): Promise<UpdateUsersResponse>;
+
+  /**
+   * Updates any number of users in chunks of at most 100, merging the per-user results
+   */
+  updateUsersBulk(users: UpdateUserData[], options?: BulkOptions): Promise<UpdateUsersBulkReport>;
+
+  /**
+   * Replaces the roles of many users
+   */
+  setUserRoles(
+    xmppUsernames: string[],
+    roles: string[],
+    options?: BulkOptions,
+  ): Promise<UpdateUsersBulkReport>;
+
+  /**
+   * Adds tags to many users, keeping their existing tags
+   */
+  addUserTags(
+    xmppUsernames: string[],
+    tags: string[],
+    options?: BulkOptions,
+  ): Promise<UpdateUsersBulkReport>;
+
+  /**
+   * Removes tags from many users, keeping their other tags
+   */
+  removeUserTags(
+    xmppUsernames: string[],
+    tags: string[],
+    options?: BulkOptions,
+  ): Promise<UpdateUsersBulkReport>;
 
   /**
    * Gets users from the chat service
@@ -295,7 +1073,7 @@ export interface ChatRepository {
    * @param params - Query parameters for filtering users
    * @returns The API response
    */
-  getUsers(params?: GetUsersQueryParams): Promise<ApiResponse>;
+  getUsers(params?: GetUsersQueryParams, options?: RequestOptions): Promise<PaginatedResponse<ChatUser>>;
 
   /**
    * Gets chat rooms for a specific user
@@ -309,7 +1087,8 @@ export interface ChatRepository {
   getUserChats(
     userId: UUID,
     params?: GetUserChatsQueryParams,
-  ): Promise<ApiResponse>;
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatRoom>>;
 
   /**
    * Updates chat room title or description
@@ -323,83 +1102,316 @@ export interface ChatRepository {
   updateChatRoom(
     chatId: UUID,
     updateData: { title?: string; description?: string },
+    options?: RequestOptions,
   ): Promise<ApiResponse>;
 
-  listApps(params?: ListAppsQueryParams): Promise<ApiResponse>;
+  listApps(params?: ListAppsQueryParams, options?: RequestOptions): Promise<PaginatedResponse<App>>;
 
-  getApp(appId: UUID): Promise<ApiResponse>;
+  getApp(appId: UUID, options?: RequestOptions): Promise<AppResponse>;
 
-  createApp(appData: CreateAppRequest): Promise<ApiResponse>;
+  createApp(appData: CreateAppRequest, options?: RequestOptions): Promise<AppResponse>;
 
-  deleteApp(appId: UUID): Promise<ApiResponse>;
+  deleteApp(appId: UUID, options?: RequestOptions): Promise<ApiResponse>;
 
-  listAppTokens(appId: UUID): Promise<ApiResponse>;
+  listAppTokens(appId: UUID, options?: RequestOptions): Promise<PaginatedResponse<AppToken>>;
 
-  createAppToken(appId: UUID, payload?: CreateAppTokenRequest): Promise<ApiResponse>;
+  createAppToken(
+    appId: UUID,
+    payload?: CreateAppTokenRequest,
+    options?: RequestOptions,
+  ): Promise<AppTokenResponse>;
 
-  revokeAppToken(appId: UUID, tokenId: UUID): Promise<ApiResponse>;
+  revokeAppToken(
+    appId: UUID,
+    tokenId: UUID,
+    options?: RequestOptions,
+  ): Promise<ApiResponse>;
 
   rotateAppToken(
     appId: UUID,
     tokenId: UUID,
     payload?: RotateAppTokenRequest,
-  ): Promise<ApiResponse>;
+    options?: RequestOptions,
+  ): Promise<AppTokenResponse>;
 
-  provisionApp(appId: UUID, payload?: ProvisionAppRequest): Promise<ApiResponse>;
+  provisionApp(
+    appId: UUID,
+    payload?: ProvisionAppRequest,
+    options?: RequestOptions,
+  ): Promise<ProvisionAppResponse>;
 
-  getAppBot(appId: UUID): Promise<ApiResponse>;
+  getAppBot(appId: UUID, options?: RequestOptions): Promise<ApiResponse>;
 
-  updateAppBot(appId: UUID, payload: UpdateAppBotRequest): Promise<ApiResponse>;
+  updateAppBot(
+    appId: UUID,
+    payload: UpdateAppBotRequest,
+    options?: RequestOptions,
+  ): Promise<ApiResponse>;
 
   broadcastToAppChats(
     appId: UUID,
     payload: CreateAppBroadcastRequest,
-  ): Promise<ApiResponse>;
+    options?: RequestOptions,
+  ): Promise<BroadcastJobResponse>;
 
-  getAppBroadcastJob(appId: UUID, jobId: UUID): Promise<ApiResponse>;
+  getAppBroadcastJob(
+    appId: UUID,
+    jobId: UUID,
+    options?: RequestOptions,
+  ): Promise<BroadcastJobResponse>;
 
-  getAppUserByXmppUsername(xmppUsername: UUID): Promise<ApiResponse>;
+  /**
+   * Polls a broadcast job until it completes, reporting delivery progress
+   */
+  waitForBroadcastJob(
+    appId: UUID,
+    jobId: UUID,
+    options?: WaitForBroadcastJobOptions,
+  ): Promise<BroadcastJob>;
+
+  /**
+   * Starts a broadcast and waits for its job to complete
+   */
+  broadcastAndWait(
+    appId: UUID,
+    payload: CreateAppBroadcastRequest,
+    options?: WaitForBroadcastJobOptions,
+  ): Promise<BroadcastJob>;
+
+  getAppUserByXmppUsername(
+    xmppUsername: UUID,
+    options?: RequestOptions,
+  ): Promise<ChatUserResponse>;
+
+  createUsersInApp(
+    appId: UUID,
+    payload: BatchCreateUsersRequest,
+    options?: RequestOptions,
+  ): Promise<BatchJobResponse>;
+
+  getUsersBatchJob(
+    appId: UUID,
+    jobId: UUID,
+    options?: RequestOptions,
+  ): Promise<BatchJobResponse>;
 
-  createUsersInApp(appId: UUID, payload: BatchCreateUsersRequest): Promise<ApiResponse>;
+  /**
+   * Polls a batch user-creation job until it completes and returns the per-user results
+   */
+  waitForUsersBatchJob(
+    appId: UUID,
+    jobId: UUID,
+    options?: WaitForUsersBatchJobOptions,
+  ): Promise<UsersBatchJobResult>;
+
+  deleteUsersInApp(
+    appId: UUID,
+    userIds: UUID[],
+    options?: RequestOptions,
+  ): Promise<ApiResponse>;
 
-  getUsersBatchJob(appId: UUID, jobId: UUID): Promise<ApiResponse>;
+  /**
+   * Creates any number of users in chunks, awaiting each chunk's batch job.
+   * Users are identified by `uuid` (or `email`) in the report.
+   */
+  createUsersInAppBulk(
+    appId: UUID,
+    payload: BatchCreateUsersRequest,
+    options?: CreateUsersBulkOptions,
+  ): Promise<BulkReport>;
+
+  /**
+   * Deletes any number of users in chunks
+   */
+  deleteUsersBulk(userIds: UUID[], options?: ResumableBulkOptions): Promise<BulkReport>;
 
-  deleteUsersInApp(appId: UUID, userIds: UUID[]): Promise<ApiResponse>;
+  /**
+   * Deletes any number of users of an app in chunks
+   */
+  deleteUsersInAppBulk(
+    appId: UUID,
+    userIds: UUID[],
+    options?: ResumableBulkOptions,
+  ): Promise<BulkReport>;
 
   createChatRoomInApp(
     appId: UUID,
     chatId: UUID,
-    roomData?: Record<string, unknown>
-  ): Promise<ApiResponse>;
+    roomData?: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<ChatRoomResponse>;
 
   listChatsInApp(
     appId: UUID,
     params?: ListAppChatsQueryParams,
-  ): Promise<ApiResponse>;
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatRoom>>;
 
-  deleteChatRoomInApp(appId: UUID, chatId: UUID): Promise<ApiResponse>;
+  deleteChatRoomInApp(
+    appId: UUID,
+    chatId: UUID,
+    options?: RequestOptions,
+  ): Promise<ApiResponse>;
 
   grantUserAccessToChatRoomInApp(
     appId: UUID,
     chatId: UUID,
-    userId: UUID | UUID[]
+    userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse>;
 
   removeUserAccessFromChatRoomInApp(
     appId: UUID,
     chatId: UUID,
-    userId: UUID | UUID[]
+    userId: UUID | UUID[],
+    options?: RequestOptions,
   ): Promise<ApiResponse>;
 
   getUserChatsInApp(
     appId: UUID,
     userId: UUID,
-    params?: GetUserChatsQueryParams
-  ): Promise<ApiResponse>;
+    params?: GetUserChatsQueryParams,
+    options?: RequestOptions,
+  ): Promise<PaginatedResponse<ChatRoom>>;
 
   updateChatRoomInApp(
     appId: UUID,
     chatId: UUID,
-    updateData: { title?: string; description?: string }
+    updateData: { title?: string; description?: string },
+    options?: RequestOptions,
   ): Promise<ApiResponse>;
+
+  /**
+   * Creates the user unless it already exists
+   */
+  ensureUser(
+    userId: UUID,
+    userData?: Record<string, unknown>,
+    options?: EnsureOptions,
+  ): Promise<EnsureResult<ChatUser>>;
+
+  ensureUserInApp(
+    appId: UUID,
+    userId: UUID,
+    userData?: Record<string, unknown>,
+    options?: EnsureOptions,
+  ): Promise<EnsureResult<ChatUser>>;
+
+  /**
+   * Creates the chat room unless it already exists
+   */
+  ensureChatRoom(
+    chatId: UUID,
+    roomData?: Record<string, unknown>,
+    options?: EnsureOptions,
+  ): Promise<EnsureResult<ChatRoom>>;
+
+  ensureChatRoomInApp(
+    appId: UUID,
+    chatId: UUID,
+    roomData?: Record<string, unknown>,
+    options?: EnsureOptions,
+  ): Promise<EnsureResult<ChatRoom>>;
+
+  /**
+   * Grants access to the users that are not members of the chat room yet
+   */
+  ensureAccess(
+    chatId: UUID,
+    userIds: UUID | UUID[],
+    options?: RequestOptions,
+  ): Promise<EnsureResult<RoomAccess>>;
+
+  ensureAccessInApp(
+    appId: UUID,
+    chatId: UUID,
+    userIds: UUID | UUID[],
+    options?: RequestOptions,
+  ): Promise<EnsureResult<RoomAccess>>;
+
+  /**
+   * Grants and revokes access so that the room members match `desiredUserIds`
+   */
+  syncRoomMembers(
+    chatId: UUID,
+    desiredUserIds: UUID[],
+    options?: SyncRoomMembersOptions,
+  ): Promise<RoomMembersSyncReport>;
+
+  syncRoomMembersInApp(
+    appId: UUID,
+    chatId: UUID,
+    desiredUserIds: UUID[],
+    options?: SyncRoomMembersOptions,
+  ): Promise<RoomMembersSyncReport>;
+
+  /**
+   * Creates an app (optionally), users and a room and grants access, undoing
+   * the completed steps when one fails
+   */
+  provisionWorkspace(
+    request: ProvisionWorkspaceRequest,
+    options?: ProvisionWorkspaceOptions,
+  ): Promise<ProvisionWorkspaceResult>;
+
+  /**
+   * Compares a tenant manifest with the live app and lists the needed changes
+   */
+  planTenant(manifest: TenantManifest, options?: TenantPlanOptions): Promise<TenantPlan>;
+
+  /**
+   * Plans a tenant manifest and performs the changes
+   */
+  applyTenant(manifest: TenantManifest, options?: TenantPlanOptions): Promise<TenantApplyResult>;
+
+  /**
+   * Exports an app's configuration, rooms, users, bot and token labels
+   */
+  exportApp(appId: UUID, options?: RequestOptions): Promise<AppSnapshot>;
+
+  /**
+   * Recreates an exported app in a new or existing app
+   */
+  importApp(snapshot: AppSnapshot, options?: ImportAppOptions): Promise<TenantApplyResult>;
+
+  /**
+   * Iterates over all apps, fetching pages of `pageSize` on demand
+   */
+  iterateApps(
+    params?: Omit<ListAppsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<App>;
+
+  /**
+   * Iterates over all chat rooms of an app, fetching pages of `pageSize` on demand
+   */
+  iterateChatsInApp(
+    appId: UUID,
+    params?: Omit<ListAppChatsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatRoom>;
+
+  /**
+   * Iterates over all users matching `params`, fetching pages of `pageSize` on demand
+   */
+  iterateUsers(
+    params?: Omit<GetUsersQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatUser>;
+
+  /**
+   * Iterates over all chat rooms of a user, fetching pages of `pageSize` on demand
+   */
+  iterateUserChats(
+    userId: UUID,
+    params?: Omit<GetUserChatsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatRoom>;
+
+  iterateUserChatsInApp(
+    appId: UUID,
+    userId: UUID,
+    params?: Omit<GetUserChatsQueryParams, 'limit' | 'offset'>,
+    options?: PaginationOptions,
+  ): AsyncIterable<ChatRoom>;
 }
@@ -0,0 +1,53 @@
+/**
+ * Helpers for splitting bulk operations into chunks and running them with bounded concurrency
+ */
+
+/**
+ * Splits a list into consecutive chunks of at most `size` items
+ */
+export function chunk<T>(items: readonly T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Maps every item through an async worker with at most `concurrency` calls in flight
+ *
+ * Results keep the order of `items`. After the first rejection no further
+ * items are started; calls already in flight are awaited and the first error
+ * is rethrown. Workers that must not stop the run should catch their own errors.
+ *
+ * @param items - The items to process
+ * @param concurrency - Maximum number of concurrent worker calls
+ * @param worker - Processes one item
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const run = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, run));
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
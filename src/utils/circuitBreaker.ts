@@ -0,0 +1,181 @@
+/**
+ * Circuit breaker for the Ethora SDK
+ *
+ * Stops sending requests to an unhealthy backend so callers fail fast
+ * instead of waiting for every request to time out.
+ */
+
+import {
+  EthoraAbortError,
+  EthoraApiError,
+  EthoraCircuitOpenError,
+  EthoraNetworkError,
+} from "../errors";
+import { getLogger } from "./logger";
+
+const logger = getLogger("circuit-breaker");
+
+/**
+ * Circuit breaker states
+ *
+ * - `closed`: requests flow normally
+ * - `open`: requests fail fast with `EthoraCircuitOpenError`
+ * - `half-open`: a limited number of trial requests probe the backend
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Event emitted when the breaker changes state
+ */
+export interface CircuitStateChangeEvent {
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures recorded when the transition happened */
+  failures: number;
+  /** The error that triggered the transition, if any */
+  error?: unknown;
+}
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before allowing trial requests, in milliseconds */
+  cooldownMs: number;
+  /** Trial requests allowed at the same time while half-open */
+  halfOpenMaxCalls: number;
+  /** Successful trial requests required to close the circuit again */
+  successThreshold: number;
+  /**
+   * Decides whether an error counts as a backend failure. By default network
+   * errors, timeouts and 5xx responses count; 4xx responses do not. Aborted
+   * requests never count.
+   */
+  isFailure: (error: unknown) => boolean;
+  /** Called on every state transition */
+  onStateChange?: (event: CircuitStateChangeEvent) => void;
+}
+
+/**
+ * Default circuit breaker configuration
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+  halfOpenMaxCalls: 1,
+  successThreshold: 1,
+  isFailure: (error: unknown) =>
+    error instanceof EthoraNetworkError ||
+    (error instanceof EthoraApiError && error.status !== undefined && error.status >= 500),
+};
+
+/**
+ * Closed/open/half-open circuit breaker
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private halfOpenSuccesses = 0;
+  private halfOpenInFlight = 0;
+  private openedAt = 0;
+
+  constructor(config?: Partial<CircuitBreakerConfig>) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  /**
+   * Returns the current state, moving from `open` to `half-open` once the cool-down has elapsed
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.config.cooldownMs) {
+      this.transition("half-open");
+    }
+    return this.state;
+  }
+
+  /**
+   * Admits a request or rejects it when the circuit is open
+   *
+   * @param method - HTTP method, used for the error context
+   * @param url - Request URL, used for the error context
+   * @returns Whether the admitted request is a half-open trial (pass it back to `record`)
+   * @throws EthoraCircuitOpenError when the request must not be sent
+   */
+  beforeRequest(method: string, url: string): boolean {
+    const state = this.getState();
+    if (state === "closed") {
+      return false;
+    }
+
+    if (state === "half-open" && this.halfOpenInFlight < this.config.halfOpenMaxCalls) {
+      this.halfOpenInFlight++;
+      return true;
+    }
+
+    const retryAfterMs =
+      state === "open" ? Math.max(0, this.openedAt + this.config.cooldownMs - Date.now()) : 0;
+    throw new EthoraCircuitOpenError(
+      `[${method}] ${url} rejected: circuit breaker is ${state}`,
+      { method, url, retryAfterMs }
+    );
+  }
+
+  /**
+   * Records the outcome of an admitted request
+   *
+   * Aborted requests and errors that `isFailure` does not count (e.g. 4xx
+   * responses) count as neither success nor failure; they only release the
+   * half-open trial slot.
+   *
+   * @param trial - The value returned by `beforeRequest` for this request
+   * @param error - The error raised by the request, or undefined on success
+   */
+  record(trial: boolean, error?: unknown): void {
+    const isTrial = trial && this.state === "half-open";
+    if (isTrial) {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+    }
+
+    if (error !== undefined) {
+      if (error instanceof EthoraAbortError || !this.config.isFailure(error)) {
+        return;
+      }
+      this.failures++;
+      if (isTrial || (this.state === "closed" && this.failures >= this.config.failureThreshold)) {
+        this.transition("open", error);
+      }
+      return;
+    }
+
+    if (this.state === "closed") {
+      this.failures = 0;
+    }
+    if (isTrial && ++this.halfOpenSuccesses >= this.config.successThreshold) {
+      this.transition("closed");
+    }
+  }
+
+  private transition(to: CircuitState, error?: unknown): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    this.halfOpenSuccesses = 0;
+    this.halfOpenInFlight = 0;
+    if (to === "open") {
+      this.openedAt = Date.now();
+    }
+
+    logger.warn(`Circuit breaker ${from} -> ${to} after ${this.failures} consecutive failure(s)`);
+    const event: CircuitStateChangeEvent = { from, to, failures: this.failures, error };
+    if (to === "closed") {
+      this.failures = 0;
+    }
+    this.config.onStateChange?.(event);
+  }
+}
@@ -3,12 +3,37 @@
  */
 
 import jwt from "jsonwebtoken";
-import type { ServerTokenPayload, ClientTokenPayload } from "../types";
+import { randomUUID } from "crypto";
+import type {
+  ServerTokenPayload,
+  ClientTokenPayload,
+  TokenOptions,
+  VerifyJwtOptions,
+} from "../types";
 import { getSecrets, Secrets } from "../config/secrets";
 import { getLogger } from "./logger";
 
 const logger = getLogger("jwt-utils");
 
+/**
+ * Default token lifetimes in seconds: server tokens are created per request,
+ * client tokens are handed to frontends that refresh them
+ */
+export const DEFAULT_TOKEN_TTL = {
+  server: 5 * 60,
+  client: 24 * 60 * 60,
+};
+
+/**
+ * Default `iss` claim of the tokens created by the SDK
+ */
+export const DEFAULT_TOKEN_ISSUER = "ethora-sdk-backend";
+
+/**
+ * Default clock skew tolerance of `verifyJwtToken`, in seconds
+ */
+export const DEFAULT_CLOCK_TOLERANCE_SEC = 30;
+
 function deriveScopedSecret(secret: string, purpose: string): string {
   return require("crypto")
     .createHmac("sha256", String(secret))
@@ -38,14 +63,23 @@ export function createJwtToken(payload: ServerTokenPayload | ClientTokenPayload,
 function createScopedJwtToken(
   payload: ServerTokenPayload | ClientTokenPayload,
   purpose: "server" | "client",
-  customSecrets?: Secrets
+  customSecrets?: Secrets,
+  options: TokenOptions = {}
 ): string {
   const secrets = customSecrets || getSecrets();
+  const signingKey = secrets.keyring?.getActiveKey();
+  // `iat` is added by jsonwebtoken
   return jwt.sign(
     payload,
-    deriveScopedSecret(secrets.chatAppSecret, purpose),
+    deriveScopedSecret(signingKey ? signingKey.secret : secrets.chatAppSecret, purpose),
     {
       algorithm: "HS256",
+      ...(signingKey && { keyid: signingKey.kid }),
+      expiresIn: (options.expiresIn ?? DEFAULT_TOKEN_TTL[purpose]) as jwt.SignOptions["expiresIn"],
+      notBefore: (options.notBefore ?? 0) as jwt.SignOptions["notBefore"],
+      issuer: options.issuer ?? DEFAULT_TOKEN_ISSUER,
+      audience: options.audience ?? secrets.chatAppId,
+      jwtid: randomUUID(),
     }
   );
 }
@@ -53,11 +87,13 @@ function createScopedJwtToken(
 /**
  * Creates a server-to-server JWT token
  * 
+ * The token expires after `DEFAULT_TOKEN_TTL.server` unless `expiresIn` is given.
+ * 
  * @returns The encoded JWT token for server authentication
  */
 export function createServerToken(
   customSecrets?: Secrets,
-  options?: { appId?: string; tenantId?: string },
+  options?: { appId?: string; tenantId?: string } & TokenOptions,
 ): string {
   logger.debug("Creating server-to-server JWT token");
   const secrets = customSecrets || getSecrets();
@@ -70,16 +106,23 @@ export function createServerToken(
     },
   };
   
-  return createScopedJwtToken(payload, "server", secrets);
+  return createScopedJwtToken(payload, "server", secrets, options);
 }
 
 /**
  * Creates a client-side JWT token for a specific user ID
  * 
+ * The token expires after `DEFAULT_TOKEN_TTL.client` unless `expiresIn` is given.
+ * 
  * @param userId - The unique identifier of the user
+ * @param options - Lifetime and registered claims
  * @returns The encoded JWT token for client-side authentication
  */
-export function createClientToken(userId: string, customSecrets?: Secrets): string {
+export function createClientToken(
+  userId: string,
+  customSecrets?: Secrets,
+  options?: TokenOptions,
+): string {
   logger.debug(`Creating a client-side JWT token for user ID: ${userId}`);
   const secrets = customSecrets || getSecrets();
   
@@ -91,7 +134,7 @@ export function createClientToken(userId: string, customSecrets?: Secrets): stri
     },
   };
   
-  const token = createScopedJwtToken(payload, "client", secrets);
+  const token = createScopedJwtToken(payload, "client", secrets, options);
   logger.info(`Client JWT token created for user ID: ${userId}`);
   return token;
 }
@@ -99,36 +142,71 @@ export function createClientToken(userId: string, customSecrets?: Secrets): stri
 /**
  * Verifies a JWT token
  * 
+ * `exp` and `nbf` are checked with `clockToleranceSec` of tolerance; `iss`
+ * and `aud` only when required by the options. Tokens without `exp` (created
+ * by earlier SDK versions) are still accepted.
+ * 
+ * A token with a `kid` header is verified with that key of the keyring and
+ * rejected when the key is unknown or retired. A token without one is
+ * verified with the app secret or any non-retired key of the keyring.
+ * 
  * @param token - The JWT token to verify
+ * @param options - Clock skew tolerance and required claims
  * @returns The decoded token payload
- * @throws Error if token is invalid
+ * @throws Error if token is invalid, expired or not yet valid
  */
-export function verifyJwtToken(token: string): jwt.JwtPayload {
+export function verifyJwtToken(token: string, options: VerifyJwtOptions = {}): jwt.JwtPayload {
   logger.debug("Verifying JWT token");
   const secrets = getSecrets();
-  const decoded = jwt.decode(token) as jwt.JwtPayload | null;
-  const tokenType = String((decoded as any)?.data?.type || "");
+  const keyring = options.keyring || secrets.keyring;
+  const decoded = jwt.decode(token, { complete: true });
+  const tokenType = String((decoded?.payload as any)?.data?.type || "");
   const purpose =
     tokenType === "server" ? "server" :
     tokenType === "client" ? "client" :
     "";
-  
-  try {
-    return jwt.verify(token, purpose ? deriveScopedSecret(secrets.chatAppSecret, purpose) : secrets.chatAppSecret, {
-      algorithms: ["HS256"],
-    }) as jwt.JwtPayload;
-  } catch (error) {
-    try {
-      // TODO(auth-cleanup): remove raw-secret fallback after all callers use purpose-scoped tokens.
-      return jwt.verify(token, secrets.chatAppSecret, {
-        algorithms: ["HS256"],
-      }) as jwt.JwtPayload;
-    } catch (fallbackError) {
-      logger.error("JWT token verification failed", fallbackError);
-      throw new Error("Invalid JWT token");
+
+  // Tokens with a `kid` must be signed by a known, non-retired key. Tokens
+  // without one (e.g. issued before the first rotation) may be signed by the
+  // app secret or any non-retired key, so moving to a keyring keeps them valid
+  const kid = decoded?.header.kid;
+  const baseSecrets = kid
+    ? [keyring?.getVerificationSecret(kid)].filter((secret): secret is string => !!secret)
+    : [...new Set([secrets.chatAppSecret, ...(keyring?.getVerificationSecrets() || [])])];
+  if (baseSecrets.length === 0) {
+    logger.warn("JWT token signed with an unknown or retired key", { kid });
+    throw new Error("Invalid JWT token");
+  }
+  const verifyOptions: jwt.VerifyOptions = {
+    algorithms: ["HS256"],
+    clockTolerance: options.clockToleranceSec ?? DEFAULT_CLOCK_TOLERANCE_SEC,
+    ...(options.issuer && { issuer: options.issuer }),
+    ...(options.audience && {
+      audience: options.audience as string | [string, ...string[]],
+    }),
+  };
+
+  let lastError: unknown;
+  for (const baseSecret of baseSecrets) {
+    // TODO(auth-cleanup): remove raw-secret fallback after all callers use purpose-scoped tokens.
+    const candidates = purpose ? [deriveScopedSecret(baseSecret, purpose), baseSecret] : [baseSecret];
+    for (const secret of candidates) {
+      try {
+        return jwt.verify(token, secret, verifyOptions) as jwt.JwtPayload;
+      } catch (error) {
+        // The signature was valid, so no other secret can succeed
+        if (error instanceof jwt.TokenExpiredError) {
+          logger.warn("JWT token expired", { expiredAt: error.expiredAt.toISOString() });
+          throw new Error("JWT token expired");
+        }
+        if (error instanceof jwt.NotBeforeError) {
+          logger.warn("JWT token is not valid yet", { notBefore: error.date.toISOString() });
+          throw new Error("JWT token is not valid yet");
+        }
+        lastError = error;
+      }
     }
   }
+  logger.error("JWT token verification failed", lastError);
+  throw new Error("Invalid JWT token");
 }
-
-
-
@@ -0,0 +1,188 @@
+/**
+ * Signing keys for the JWTs created and verified by the SDK
+ *
+ * Tokens are signed with the active key and carry its ID in the `kid` header,
+ * so keys can be rotated without invalidating tokens signed by older keys:
+ * add the new key, activate it once every verifier knows it, and retire the
+ * old key after its tokens have expired.
+ */
+
+import { getLogger } from "./logger";
+
+const logger = getLogger("jwt-keyring");
+
+/**
+ * Environment variable holding the signing keys as `kid:secret` pairs
+ * separated by commas, active key first
+ */
+export const SIGNING_KEYS_ENV = "ETHORA_CHAT_APP_SECRETS";
+
+/**
+ * `active` keys sign new tokens, `verify-only` keys are only accepted for
+ * verification and `retired` keys are rejected
+ */
+export type SigningKeyStatus = "active" | "verify-only" | "retired";
+
+/**
+ * A signing key without its secret
+ */
+export interface SigningKeyInfo {
+  kid: string;
+  status: SigningKeyStatus;
+}
+
+export interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+/**
+ * Set of signing keys with at most one active key
+ */
+export class JwtKeyring {
+  private readonly keys = new Map<string, { secret: string; status: SigningKeyStatus }>();
+
+  /**
+   * @param keys - Initial keys; the first one becomes the active key
+   */
+  constructor(keys: SigningKey[] = []) {
+    keys.forEach((key, index) => this.addKey(key.kid, key.secret, { activate: index === 0 }));
+  }
+
+  /**
+   * Parses keys from `kid:secret` pairs separated by commas, active key first
+   *
+   * @throws Error when an entry is malformed (the message never includes secrets)
+   */
+  static fromString(value: string): JwtKeyring {
+    const entries = value
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== "");
+    const keys = entries.map((entry, index) => {
+      const separator = entry.indexOf(":");
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`Invalid signing key entry #${index + 1}: expected "kid:secret"`);
+      }
+      return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+    });
+    return new JwtKeyring(keys);
+  }
+
+  /**
+   * Number of keys, including retired ones
+   */
+  get size(): number {
+    return this.keys.size;
+  }
+
+  /**
+   * Adds a key, for verification only unless `activate` is set
+   *
+   * @throws Error when the key ID is invalid or already used
+   */
+  addKey(kid: string, secret: string, options: { activate?: boolean } = {}): void {
+    if (!kid || /[,:]/.test(kid)) {
+      throw new Error(`Invalid signing key ID '${kid}': must be non-empty without ',' or ':'`);
+    }
+    if (!secret) {
+      throw new Error(`Signing key '${kid}' has an empty secret`);
+    }
+    if (this.keys.has(kid)) {
+      throw new Error(`Signing key '${kid}' already exists`);
+    }
+    this.keys.set(kid, { secret, status: "verify-only" });
+    logger.info(`Signing key ${kid} added`);
+    if (options.activate) {
+      this.activateKey(kid);
+    }
+  }
+
+  /**
+   * Makes a key the one that signs new tokens; the previous active key stays valid for verification
+   *
+   * @throws Error when the key does not exist or is retired
+   */
+  activateKey(kid: string): void {
+    const key = this.keys.get(kid);
+    if (!key || key.status === "retired") {
+      throw new Error(`Signing key '${kid}' ${key ? "is retired" : "does not exist"}`);
+    }
+    for (const other of this.keys.values()) {
+      if (other.status === "active") {
+        other.status = "verify-only";
+      }
+    }
+    key.status = "active";
+    logger.info(`Signing key ${kid} activated`);
+  }
+
+  /**
+   * Rejects tokens signed with a key from now on
+   *
+   * @throws Error when the key does not exist or is the active key
+   */
+  retireKey(kid: string): void {
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new Error(`Signing key '${kid}' does not exist`);
+    }
+    if (key.status === "active") {
+      throw new Error(`Signing key '${kid}' is active; activate another key before retiring it`);
+    }
+    key.status = "retired";
+    logger.info(`Signing key ${kid} retired`);
+  }
+
+  /**
+   * Returns the key that signs new tokens, if any
+   */
+  getActiveKey(): SigningKey | undefined {
+    for (const [kid, key] of this.keys) {
+      if (key.status === "active") {
+        return { kid, secret: key.secret };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the secret of a key that may verify tokens (active or verify-only)
+   */
+  getVerificationSecret(kid: string): string | undefined {
+    const key = this.keys.get(kid);
+    return key && key.status !== "retired" ? key.secret : undefined;
+  }
+
+  /**
+   * Returns the secrets of every key that may verify tokens, active key first
+   */
+  getVerificationSecrets(): string[] {
+    const active = this.getActiveKey();
+    const others = [...this.keys.values()]
+      .filter((key) => key.status === "verify-only")
+      .map((key) => key.secret);
+    return active ? [active.secret, ...others] : others;
+  }
+
+  /**
+   * Lists the keys and their status, without secrets
+   */
+  listKeys(): SigningKeyInfo[] {
+    return [...this.keys].map(([kid, key]) => ({ kid, status: key.status }));
+  }
+}
+
+let defaultKeyring: JwtKeyring | null = null;
+
+/**
+ * Returns the keyring configured through `ETHORA_CHAT_APP_SECRETS`, shared by
+ * every SDK instance configured with neither its own keyring nor its own
+ * `chatAppSecret` (empty when the variable is unset)
+ */
+export function getDefaultKeyring(): JwtKeyring {
+  if (!defaultKeyring) {
+    defaultKeyring = JwtKeyring.fromString(process.env[SIGNING_KEYS_ENV] || "");
+  }
+  return defaultKeyring;
+}
@@ -0,0 +1,85 @@
+/**
+ * Adapters that route SDK logs to pino and winston
+ *
+ * The adapters are structural: they only rely on the logging methods, so the
+ * SDK does not depend on either library.
+ */
+
+import { Logger, LoggerFactory, splitLogArgs } from "./logger";
+
+/**
+ * Subset of the pino logger API used by the adapter
+ */
+export interface PinoLike {
+  debug(obj: object, msg?: string): void;
+  info(obj: object, msg?: string): void;
+  warn(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+}
+
+/**
+ * Subset of the winston logger API used by the adapter
+ */
+export interface WinstonLike {
+  log(level: string, message: string, meta?: object): void;
+}
+
+function toMeta(context: string | undefined, args: unknown[], error?: unknown): Record<string, unknown> {
+  const { fields, rest } = splitLogArgs(args);
+  return {
+    ...(context && { context }),
+    ...fields,
+    ...(error !== undefined && error !== null && error !== "" && { err: error }),
+    ...(rest.length > 0 && { args: rest }),
+  };
+}
+
+/**
+ * Creates an SDK logger that writes to a pino logger
+ *
+ * Structured fields are merged into the log object and errors are passed as
+ * `err` so pino's error serializer applies.
+ *
+ * @param pino - The pino logger (or child) to write to
+ * @param context - Optional context added to every entry
+ */
+export function createPinoLogger(pino: PinoLike, context?: string): Logger {
+  return {
+    debug: (message, ...args) => pino.debug(toMeta(context, args), message),
+    info: (message, ...args) => pino.info(toMeta(context, args), message),
+    warn: (message, ...args) => pino.warn(toMeta(context, args), message),
+    error: (message, error, ...args) => pino.error(toMeta(context, args, error), message),
+  };
+}
+
+/**
+ * Creates an SDK logger that writes to a winston logger
+ *
+ * Structured fields become metadata and errors are passed as `err`.
+ *
+ * @param winston - The winston logger to write to
+ * @param context - Optional context added to every entry
+ */
+export function createWinstonLogger(winston: WinstonLike, context?: string): Logger {
+  return {
+    debug: (message, ...args) => winston.log("debug", message, toMeta(context, args)),
+    info: (message, ...args) => winston.log("info", message, toMeta(context, args)),
+    warn: (message, ...args) => winston.log("warn", message, toMeta(context, args)),
+    error: (message, error, ...args) =>
+      winston.log("error", message, toMeta(context, args, error)),
+  };
+}
+
+/**
+ * Logger factory for `setLogger` that tags pino entries with the SDK module context
+ */
+export function pinoLoggerFactory(pino: PinoLike): LoggerFactory {
+  return (context) => createPinoLogger(pino, context);
+}
+
+/**
+ * Logger factory for `setLogger` that tags winston entries with the SDK module context
+ */
+export function winstonLoggerFactory(winston: WinstonLike): LoggerFactory {
+  return (context) => createWinstonLogger(winston, context);
+}
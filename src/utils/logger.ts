@@ -2,6 +2,8 @@
  * Logger utility for the Ethora SDK
  */
 
+import { redactString, redactValue } from "./redaction";
+
 export enum LogLevel {
   DEBUG = "debug",
   INFO = "info",
@@ -9,6 +11,13 @@ export enum LogLevel {
   ERROR = "error",
 }
 
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  [LogLevel.DEBUG]: 10,
+  [LogLevel.INFO]: 20,
+  [LogLevel.WARN]: 30,
+  [LogLevel.ERROR]: 40,
+};
+
 /**
  * Logger interface
  */
@@ -19,10 +28,49 @@ export interface Logger {
   error(message: string, error?: Error | unknown, ...args: unknown[]): void;
 }
 
+/**
+ * Creates the logger for a context (typically the module name)
+ */
+export type LoggerFactory = (context: string) => Logger;
+
+/**
+ * Structured fields attached to SDK log entries
+ *
+ * The SDK passes them as a plain-object argument; structured loggers merge
+ * them into the log record.
+ */
+export interface LogFields {
+  /** Logical operation name (e.g. `grantUserAccessToChatRoomInApp`) */
+  operation?: string;
+  /** Ethora app the call targets */
+  appId?: string;
+  /** Correlation ID of the call */
+  requestId?: string;
+  /** Duration of the call in milliseconds */
+  durationMs?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Splits log arguments into structured fields (plain objects) and everything else
+ */
+export function splitLogArgs(args: unknown[]): { fields: LogFields; rest: unknown[] } {
+  const fields: LogFields = {};
+  const rest: unknown[] = [];
+  for (const arg of args) {
+    if (arg && typeof arg === "object" && Object.getPrototypeOf(arg) === Object.prototype) {
+      Object.assign(fields, arg);
+    } else {
+      rest.push(arg);
+    }
+  }
+  return { fields, rest };
+}
+
 /**
  * Simple console logger implementation
  */
-class ConsoleLogger implements Logger {
+export class ConsoleLogger implements Logger {
   private context: string;
 
   constructor(context: string) {
@@ -35,9 +83,7 @@ class ConsoleLogger implements Logger {
   }
 
   debug(message: string, ...args: unknown[]): void {
-    if (process.env.NODE_ENV !== "production") {
-      console.debug(this.formatMessage(LogLevel.DEBUG, message), ...args);
-    }
+    console.debug(this.formatMessage(LogLevel.DEBUG, message), ...args);
   }
 
   info(message: string, ...args: unknown[]): void {
@@ -58,6 +104,217 @@ class ConsoleLogger implements Logger {
   }
 }
 
+/**
+ * JsonLinesLogger options
+ */
+export interface JsonLinesLoggerOptions {
+  /** Receives each serialized line (without trailing newline). Defaults to stdout */
+  write?: (line: string) => void;
+}
+
+/**
+ * Logger that writes one JSON object per line
+ *
+ * Every record has `timestamp`, `level`, `context` and `message`, followed by
+ * the structured fields of the entry (`operation`, `appId`, `requestId`,
+ * `durationMs`, ...). Errors are serialized under `error` and any remaining
+ * arguments under `args`.
+ */
+export class JsonLinesLogger implements Logger {
+  private readonly write: (line: string) => void;
+
+  constructor(private readonly context: string, options: JsonLinesLoggerOptions = {}) {
+    this.write = options.write || ((line) => process.stdout.write(`${line}\n`));
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.log(LogLevel.DEBUG, message, undefined, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.log(LogLevel.INFO, message, undefined, args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.log(LogLevel.WARN, message, undefined, args);
+  }
+
+  error(message: string, error?: Error | unknown, ...args: unknown[]): void {
+    this.log(LogLevel.ERROR, message, error, args);
+  }
+
+  private log(level: LogLevel, message: string, error: unknown, args: unknown[]): void {
+    const { fields, rest } = splitLogArgs(args);
+    const record: Record<string, unknown> = {
+      timestamp: new Date().toISOString(),
+      level,
+      context: this.context,
+      message,
+      ...fields,
+    };
+    if (error !== undefined && error !== null && error !== "") {
+      record.error =
+        error instanceof Error
+          ? { name: error.name, message: error.message, stack: error.stack }
+          : error;
+    }
+    if (rest.length > 0) {
+      record.args = rest;
+    }
+    this.write(JSON.stringify(record));
+  }
+}
+
+/**
+ * Logger decorator that applies the active redaction policy to messages and arguments
+ */
+class RedactingLogger implements Logger {
+  constructor(private readonly inner: Logger) {}
+
+  debug(message: string, ...args: unknown[]): void {
+    this.inner.debug(redactString(message), ...args.map((arg) => redactValue(arg)));
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.inner.info(redactString(message), ...args.map((arg) => redactValue(arg)));
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.inner.warn(redactString(message), ...args.map((arg) => redactValue(arg)));
+  }
+
+  error(message: string, error?: Error | unknown, ...args: unknown[]): void {
+    this.inner.error(
+      redactString(message),
+      redactValue(error),
+      ...args.map((arg) => redactValue(arg))
+    );
+  }
+}
+
+/**
+ * Wraps a logger so everything it receives is redacted first
+ *
+ * @param logger - The logger to wrap
+ * @returns A logger applying the active redaction policy
+ */
+export function withRedaction(logger: Logger): Logger {
+  return new RedactingLogger(logger);
+}
+
+/**
+ * Minimum level set programmatically (takes precedence over `ETHORA_LOG_LEVEL`)
+ */
+let minLevel: LogLevel | null = null;
+
+function parseLogLevel(value: string | undefined): LogLevel | null {
+  const level = value?.trim().toLowerCase() as LogLevel | undefined;
+  return level && level in LEVEL_ORDER ? level : null;
+}
+
+/**
+ * Sets the minimum level of SDK log entries
+ *
+ * @param level - The minimum level, or null to fall back to `ETHORA_LOG_LEVEL`
+ */
+export function setLogLevel(level: LogLevel | `${LogLevel}` | null): void {
+  if (level !== null && !parseLogLevel(level)) {
+    throw new Error(`Unknown log level: ${level}`);
+  }
+  minLevel = level === null ? null : parseLogLevel(level);
+}
+
+/**
+ * Returns the minimum level of SDK log entries
+ *
+ * Resolved from `setLogLevel`, then `ETHORA_LOG_LEVEL`, then defaults to
+ * `info` in production and `debug` otherwise.
+ */
+export function getLogLevel(): LogLevel {
+  return (
+    minLevel ??
+    parseLogLevel(process.env.ETHORA_LOG_LEVEL) ??
+    (process.env.NODE_ENV === "production" ? LogLevel.INFO : LogLevel.DEBUG)
+  );
+}
+
+function isLevelEnabled(level: LogLevel): boolean {
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[getLogLevel()];
+}
+
+/**
+ * Globally registered logger factory (null means console output)
+ */
+let globalFactory: LoggerFactory | null = null;
+
+/**
+ * Sink cache per context for the current global factory
+ */
+const sinkCache = new Map<string, Logger>();
+
+function toFactory(logger: Logger | LoggerFactory): LoggerFactory {
+  return typeof logger === "function" ? logger : () => logger;
+}
+
+/**
+ * Registers the logger used by all SDK modules
+ *
+ * Pass a `Logger` to receive every entry, a `LoggerFactory` to get one logger
+ * per context, or null to restore console output. Redaction and the minimum
+ * level are applied before entries reach the registered logger.
+ *
+ * @param logger - The logger or factory to register
+ */
+export function setLogger(logger: Logger | LoggerFactory | null): void {
+  globalFactory = logger ? toFactory(logger) : null;
+  sinkCache.clear();
+}
+
+function resolveSink(context: string): Logger {
+  let sink = sinkCache.get(context);
+  if (!sink) {
+    sink = withRedaction(globalFactory ? globalFactory(context) : new ConsoleLogger(context));
+    sinkCache.set(context, sink);
+  }
+  return sink;
+}
+
+/**
+ * Logger handed out by the SDK: filters by level and forwards to the
+ * registered (or instance-specific) logger, resolved at call time
+ */
+class SdkLogger implements Logger {
+  constructor(private readonly context: string, private readonly sink?: Logger) {}
+
+  debug(message: string, ...args: unknown[]): void {
+    if (isLevelEnabled(LogLevel.DEBUG)) {
+      this.target().debug(message, ...args);
+    }
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    if (isLevelEnabled(LogLevel.INFO)) {
+      this.target().info(message, ...args);
+    }
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    if (isLevelEnabled(LogLevel.WARN)) {
+      this.target().warn(message, ...args);
+    }
+  }
+
+  error(message: string, error?: Error | unknown, ...args: unknown[]): void {
+    if (isLevelEnabled(LogLevel.ERROR)) {
+      this.target().error(message, error, ...args);
+    }
+  }
+
+  private target(): Logger {
+    return this.sink ?? resolveSink(this.context);
+  }
+}
+
 /**
  * Logger cache to reuse logger instances
  */
@@ -65,16 +322,25 @@ const loggerCache = new Map<string, Logger>();
 
 /**
  * Gets a logger instance for the given context
- * 
+ *
  * @param context - The context/name for the logger (typically the module name)
  * @returns Logger instance
  */
 export function getLogger(context: string): Logger {
   if (!loggerCache.has(context)) {
-    loggerCache.set(context, new ConsoleLogger(context));
+    loggerCache.set(context, new SdkLogger(context));
   }
   return loggerCache.get(context)!;
 }
 
-
-
+/**
+ * Creates a logger bound to a specific logger implementation, bypassing the
+ * global registration (used for per-instance loggers)
+ *
+ * @param context - The context/name for the logger
+ * @param logger - The logger or factory to send entries to
+ * @returns Logger instance applying redaction and the minimum level
+ */
+export function createLogger(context: string, logger: Logger | LoggerFactory): Logger {
+  return new SdkLogger(context, withRedaction(toFactory(logger)(context)));
+}
@@ -0,0 +1,108 @@
+/**
+ * Tenant manifests: parsing, validation and human-readable plans
+ */
+
+import type { EthoraFieldError } from "../errors";
+import { EthoraValidationError } from "../errors";
+import type { TenantChange, TenantManifest, TenantPlan } from "../types";
+import { TENANT_MANIFEST } from "./requestSchemas";
+import { validateSchema } from "./schema";
+
+export interface ParseTenantManifestOptions {
+  /**
+   * Parses YAML text, e.g. `parse` from the `yaml` package. Without it only
+   * JSON manifests are accepted.
+   */
+  parseYaml?: (text: string) => unknown;
+}
+
+function findDuplicates(values: string[], path: string): EthoraFieldError[] {
+  return values
+    .map((value, index) => ({ value, index }))
+    .filter(({ value, index }) => values.indexOf(value) !== index)
+    .map(({ index }) => ({ path: `${path}.${index}`, message: "duplicate value" }));
+}
+
+/**
+ * Parses and validates a tenant manifest
+ *
+ * @param source - JSON or YAML text, or an already parsed object
+ * @param options - YAML parser
+ * @throws EthoraValidationError listing every invalid field
+ */
+export function parseTenantManifest(
+  source: string | object,
+  options: ParseTenantManifestOptions = {}
+): TenantManifest {
+  let manifest: unknown = source;
+  if (typeof source === "string") {
+    try {
+      manifest = options.parseYaml ? options.parseYaml(source) : JSON.parse(source);
+    } catch (error) {
+      const hint = options.parseYaml ? "" : " (pass `parseYaml` to read YAML manifests)";
+      throw new EthoraValidationError(
+        `Tenant manifest could not be parsed${hint}: ${(error as Error).message}`,
+        { cause: error }
+      );
+    }
+  }
+
+  const record = (manifest && typeof manifest === "object" ? manifest : {}) as Record<string, unknown>;
+  const fields = validateSchema(record, TENANT_MANIFEST.schema);
+  for (const key of Object.keys(record)) {
+    if (!(key in TENANT_MANIFEST.schema)) {
+      fields.push({ path: key, message: "unsupported field" });
+    }
+  }
+  if (fields.length === 0) {
+    const { rooms = [], tokens = [], users = [] } = record as unknown as TenantManifest;
+    fields.push(
+      ...findDuplicates(rooms.map((room) => String(room.chatId)), "rooms"),
+      ...findDuplicates(tokens, "tokens"),
+      ...findDuplicates(users.map((user) => String(user.userId)), "users")
+    );
+  }
+
+  if (fields.length > 0) {
+    const details = fields.map((field) => `${field.path} (${field.message})`).join(", ");
+    throw new EthoraValidationError(`Invalid ${TENANT_MANIFEST.name}: ${details}`, { fields });
+  }
+  return record as unknown as TenantManifest;
+}
+
+const SYMBOLS: Record<TenantChange["action"], string> = { create: "+", update: "~", delete: "-" };
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+/**
+ * Renders a plan Terraform-style, one line per change and one per changed field
+ *
+ * @param plan - The plan returned by `planTenant`
+ */
+export function formatTenantPlan(plan: TenantPlan): string {
+  const count = (action: TenantChange["action"]) =>
+    plan.changes.filter((change) => change.action === action).length;
+  const lines = [
+    `Plan for app ${plan.appId ?? "(new)"}: ${count("create")} to create, ` +
+      `${count("update")} to update, ${count("delete")} to delete`,
+    "",
+  ];
+  if (plan.changes.length === 0) {
+    lines.push("No changes. The app matches the manifest.");
+  }
+
+  for (const change of plan.changes) {
+    const members = change.members ? `: ${change.members.join(", ")}` : "";
+    lines.push(`  ${SYMBOLS[change.action]} ${change.resource} ${change.id}${members}`);
+    for (const [field, { from, to }] of Object.entries(change.diff || {})) {
+      lines.push(`      ${field}: ${formatValue(from)} -> ${formatValue(to)}`);
+    }
+  }
+
+  if (plan.warnings.length > 0) {
+    lines.push("", "Warnings:", ...plan.warnings.map((warning) => `  ! ${warning}`));
+  }
+  return lines.join("\n");
+}
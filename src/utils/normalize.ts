@@ -0,0 +1,281 @@
+/**
+ * Response normalization for the Ethora SDK
+ *
+ * The backend wraps entities in different envelopes depending on the endpoint
+ * and version (`{ app }`, `{ result }`, `{ data }` or the bare entity) and
+ * uses `_id` for identifiers. These helpers map every variant onto the typed
+ * models so callers can rely on e.g. `createApp(...).app.id`.
+ */
+
+import type {
+  ApiResponse,
+  App,
+  AppResponse,
+  AppToken,
+  AppTokenResponse,
+  BatchJob,
+  BatchJobResponse,
+  BroadcastJob,
+  BroadcastJobResponse,
+  ChatRoom,
+  ChatRoomResponse,
+  ChatUser,
+  ChatUserResponse,
+  PaginatedResponse,
+  ProvisionAppResponse,
+  UpdateUserResult,
+  UpdateUsersResponse,
+  UserBatchResult,
+  UsersBatchJobResult,
+} from "../types";
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): RawRecord {
+  return isRecord(value) ? value : {};
+}
+
+/**
+ * Returns the first nested record found under `keys`, or the value itself
+ */
+function unwrap(raw: unknown, keys: string[]): RawRecord {
+  const record = asRecord(raw);
+  for (const key of keys) {
+    if (isRecord(record[key])) {
+      return record[key] as RawRecord;
+    }
+  }
+  return record;
+}
+
+function readString(record: RawRecord, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value !== "") {
+      return value;
+    }
+    if (typeof value === "number") {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+function readNumber(record: RawRecord, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+export function normalizeApp(raw: unknown): App {
+  const record = asRecord(raw);
+  return { ...record, id: readString(record, "id", "_id", "appId") ?? "" } as App;
+}
+
+export function normalizeAppToken(raw: unknown): AppToken {
+  const record = asRecord(raw);
+  return {
+    ...record,
+    id: readString(record, "id", "_id", "tokenId") ?? "",
+    token: readString(record, "token", "secret", "value"),
+  } as AppToken;
+}
+
+export function normalizeChatUser(raw: unknown): ChatUser {
+  const record = asRecord(raw);
+  return {
+    ...record,
+    id: readString(record, "id", "_id", "userId") ?? "",
+    uuid: readString(record, "uuid"),
+    xmppUsername: readString(record, "xmppUsername"),
+  } as ChatUser;
+}
+
+export function normalizeChatRoom(raw: unknown): ChatRoom {
+  const record = asRecord(raw);
+  const name = readString(record, "name", "chatName", "roomName");
+  const members = Array.isArray(record.members)
+    ? record.members.map((member) =>
+        isRecord(member) ? normalizeChatUser(member) : normalizeChatUser({ xmppUsername: member })
+      )
+    : undefined;
+  return {
+    ...record,
+    id: readString(record, "id", "_id", "chatId") ?? name ?? "",
+    name,
+    ...(members && { members }),
+  } as ChatRoom;
+}
+
+export function normalizeBatchJob(raw: unknown): BatchJob {
+  const record = asRecord(raw);
+  return {
+    ...record,
+    jobId: readString(record, "jobId", "id", "_id") ?? "",
+    status: readString(record, "status", "state") ?? "",
+    total: readNumber(record, "total", "totalCount"),
+    processed: readNumber(record, "processed", "processedCount"),
+    ...(Array.isArray(record.results) && { results: record.results.map(asRecord) }),
+  } as BatchJob;
+}
+
+export function normalizeBroadcastJob(raw: unknown): BroadcastJob {
+  const record = asRecord(raw);
+  return {
+    ...record,
+    jobId: readString(record, "jobId", "id", "_id") ?? "",
+    status: readString(record, "status", "state") ?? "",
+    total: readNumber(record, "total", "totalRooms"),
+    processed: readNumber(record, "processed", "processedRooms", "sent"),
+    failed: readNumber(record, "failed", "failedRooms"),
+  } as BroadcastJob;
+}
+
+const CREATED_STATUSES = ["created", "ok", "success", "succeeded", "done", "completed"];
+
+/**
+ * Normalizes one row of a batch user-creation job onto created / already-exists / failed
+ *
+ * Rows with an unrecognized status count as failed, with the status as the reason.
+ */
+export function normalizeUserBatchResult(raw: unknown): UserBatchResult {
+  const record = asRecord(raw);
+  const status = (readString(record, "status", "result", "state") ?? "").toLowerCase();
+  const detail = readString(record, "reason", "error", "message", "errorMessage");
+  const identity = {
+    uuid: readString(record, "uuid"),
+    email: readString(record, "email"),
+    xmppUsername: readString(record, "xmppUsername"),
+    raw: record,
+  };
+
+  // Only "already exists"/"duplicate", not failures such as "app does not exist"
+  if (status === "exists" || /already[\s_-]*exist|duplicate/.test(`${status} ${detail ?? ""}`.toLowerCase())) {
+    return { ...identity, status: "already-exists", reason: detail ?? "already exists" };
+  }
+  if (CREATED_STATUSES.includes(status) && !record.error) {
+    return { ...identity, status: "created" };
+  }
+  return {
+    ...identity,
+    status: "failed",
+    reason: detail ?? (status ? `status '${status}'` : "no status reported"),
+  };
+}
+
+/**
+ * Maps the rows of a finished batch user-creation job and counts them per status
+ */
+export function toUsersBatchJobResult(job: BatchJob): UsersBatchJobResult {
+  const results = (job.results || []).map(normalizeUserBatchResult);
+  const counts = { created: 0, "already-exists": 0, failed: 0 };
+  for (const result of results) {
+    counts[result.status] += 1;
+  }
+  return { job, results, counts };
+}
+
+/**
+ * Normalizes a list envelope (`items`, `results`, `data`, a named array or a bare array)
+ *
+ * @param raw - The raw response
+ * @param listKeys - Endpoint-specific names of the array (e.g. `apps`)
+ * @param normalize - Normalizer applied to every item
+ */
+export function toPaginatedResponse<T>(
+  raw: unknown,
+  listKeys: string[],
+  normalize: (item: unknown) => T
+): PaginatedResponse<T> {
+  if (Array.isArray(raw)) {
+    return { items: raw.map(normalize) };
+  }
+
+  const envelope = asRecord(raw);
+  const containers = [envelope, asRecord(envelope.result), asRecord(envelope.data)];
+  const keys = [...listKeys, "items", "results", "data", "result"];
+
+  let items: unknown[] = [];
+  let container = envelope;
+  search: for (const candidate of containers) {
+    for (const key of keys) {
+      if (Array.isArray(candidate[key])) {
+        items = candidate[key] as unknown[];
+        container = candidate;
+        break search;
+      }
+    }
+  }
+
+  const pagination = isRecord(container.pagination) ? container.pagination : container;
+  return {
+    ...envelope,
+    items: items.map(normalize),
+    total: readNumber(pagination, "total", "totalCount", "count") ?? readNumber(envelope, "total"),
+    limit: readNumber(pagination, "limit"),
+    offset: readNumber(pagination, "offset"),
+  };
+}
+
+export function toAppResponse(raw: ApiResponse): AppResponse {
+  return { ...raw, app: normalizeApp(unwrap(raw, ["app", "result", "data"])) };
+}
+
+export function toAppTokenResponse(raw: ApiResponse): AppTokenResponse {
+  const entity = unwrap(raw, ["appToken", "tokenInfo", "result", "data"]);
+  // Some versions return the secret next to the token metadata
+  const token = readString(entity, "token") ?? readString(raw, "token");
+  return { ...raw, appToken: normalizeAppToken({ ...entity, ...(token && { token }) }) };
+}
+
+export function toChatUserResponse(raw: ApiResponse): ChatUserResponse {
+  return { ...raw, user: normalizeChatUser(unwrap(raw, ["user", "result", "data"])) };
+}
+
+export function toChatRoomResponse(raw: ApiResponse): ChatRoomResponse {
+  return { ...raw, chat: normalizeChatRoom(unwrap(raw, ["chat", "room", "result", "data"])) };
+}
+
+/**
+ * Extracts the bot settings from a `getAppBot` response
+ */
+export function toAppBotSettings(raw: ApiResponse): Record<string, unknown> {
+  return unwrap(raw, ["bot", "result", "data"]);
+}
+
+export function toBatchJobResponse(raw: ApiResponse): BatchJobResponse {
+  return { ...raw, job: normalizeBatchJob(unwrap(raw, ["job", "result", "data"])) };
+}
+
+export function toBroadcastJobResponse(raw: ApiResponse): BroadcastJobResponse {
+  return { ...raw, job: normalizeBroadcastJob(unwrap(raw, ["job", "result", "data"])) };
+}
+
+export function toProvisionAppResponse(raw: ApiResponse): ProvisionAppResponse {
+  const { items } = toPaginatedResponse(raw, ["rooms", "chats"], normalizeChatRoom);
+  return { ...raw, rooms: items };
+}
+
+export function toUpdateUsersResponse(raw: ApiResponse): UpdateUsersResponse {
+  const { items } = toPaginatedResponse(raw, ["results"], (item): UpdateUserResult => {
+    const record = asRecord(item);
+    return {
+      ...record,
+      xmppUsername: readString(record, "xmppUsername") ?? "",
+      status: readString(record, "status") ?? "",
+      ...(isRecord(record.user) && { user: normalizeChatUser(record.user) }),
+    };
+  });
+  return { ...raw, results: items };
+}
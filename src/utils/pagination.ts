@@ -0,0 +1,86 @@
+/**
+ * Transparent pagination over limit/offset list endpoints
+ */
+
+import type { PaginatedResponse } from "../types";
+
+/**
+ * Default number of items requested per page
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Default safety cap for `collectAll`
+ */
+export const DEFAULT_MAX_ITEMS = 10000;
+
+/**
+ * Fetches one page of a list endpoint
+ */
+export type PageFetcher<T> = (page: {
+  limit: number;
+  offset: number;
+}) => Promise<PaginatedResponse<T>>;
+
+/**
+ * Iterates over every item of a paginated endpoint, requesting pages lazily
+ *
+ * Iteration stops at the first empty page or once `total` (when reported) is
+ * reached. The offset advances by the number of items actually returned, so
+ * servers that cap the page size below `pageSize` are paged through. Without
+ * a `total`, a page shorter than the server-reported `limit` is the last one;
+ * when neither is reported, paging continues until an empty page.
+ *
+ * @param fetchPage - Fetches the page at the given limit/offset
+ * @param pageSize - Number of items requested per page
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): AsyncGenerator<T, void, undefined> {
+  let offset = 0;
+  for (;;) {
+    const page = await fetchPage({ limit: pageSize, offset });
+    yield* page.items;
+    offset += page.items.length;
+
+    if (page.items.length === 0) {
+      return;
+    }
+    const isLast =
+      page.total !== undefined
+        ? offset >= page.total
+        : page.limit !== undefined && page.items.length < page.limit;
+    if (isLast) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collects the items of an async iterable into an array
+ *
+ * Stops (without requesting further pages) once `maxItems` items have been
+ * collected, so a runaway listing cannot exhaust memory. A result of exactly
+ * `maxItems` items may therefore be truncated.
+ *
+ * @param iterable - The items to collect, e.g. from `iterateUsers()`
+ * @param options - `maxItems` safety cap (defaults to `DEFAULT_MAX_ITEMS`)
+ */
+export async function collectAll<T>(
+  iterable: AsyncIterable<T>,
+  options: { maxItems?: number } = {}
+): Promise<T[]> {
+  const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+  const items: T[] = [];
+  if (maxItems <= 0) {
+    return items;
+  }
+  for await (const item of iterable) {
+    items.push(item);
+    if (items.length >= maxItems) {
+      break;
+    }
+  }
+  return items;
+}
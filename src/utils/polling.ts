@@ -0,0 +1,93 @@
+/**
+ * Polling of asynchronous backend jobs until they reach a terminal state
+ */
+
+import type { BatchJob, BroadcastJob, JobPollingOptions } from "../types";
+import { EthoraAbortError, EthoraJobFailedError, EthoraJobTimeoutError } from "../errors";
+import { sleep } from "./retry";
+
+/**
+ * Default job polling settings
+ */
+export const DEFAULT_JOB_POLLING: Required<Omit<JobPollingOptions, "signal">> = {
+  intervalMs: 1000,
+  maxIntervalMs: 10000,
+  backoffFactor: 1.5,
+  timeoutMs: 300000,
+};
+
+const COMPLETED_STATUSES = ["completed", "complete", "done", "finished", "succeeded", "success"];
+const FAILED_STATUSES = ["failed", "failure", "error", "cancelled", "canceled", "aborted"];
+
+/**
+ * Checks whether a job status means the job finished successfully
+ */
+export function isJobCompleted(status: string): boolean {
+  return COMPLETED_STATUSES.includes(status.toLowerCase());
+}
+
+/**
+ * Checks whether a job status means the job failed
+ */
+export function isJobFailed(status: string): boolean {
+  return FAILED_STATUSES.includes(status.toLowerCase());
+}
+
+/**
+ * Polls a job with exponential backoff until it completes
+ *
+ * @param fetchJob - Reads the current state of the job
+ * @param options - Polling settings
+ * @param context - Method and URL of the status endpoint, used in errors
+ * @param onPoll - Called with the state observed by every poll
+ * @returns The job in its completed state
+ * @throws EthoraJobFailedError when the job reaches a failed state
+ * @throws EthoraJobTimeoutError when `timeoutMs` elapses first
+ * @throws EthoraAbortError when `signal` is aborted
+ */
+export async function pollJob<J extends BatchJob | BroadcastJob>(
+  fetchJob: () => Promise<J>,
+  options: JobPollingOptions,
+  context: { method: string; url: string },
+  onPoll?: (job: J) => void
+): Promise<J> {
+  const { intervalMs, maxIntervalMs, backoffFactor, timeoutMs } = {
+    ...DEFAULT_JOB_POLLING,
+    ...options,
+  };
+  const { signal } = options;
+  const deadline = Date.now() + timeoutMs;
+  let delay = intervalMs;
+
+  for (;;) {
+    const job = await fetchJob();
+    onPoll?.(job);
+
+    if (isJobFailed(job.status)) {
+      throw new EthoraJobFailedError(
+        `Job ${job.jobId} finished with status '${job.status}'`,
+        { ...context, job }
+      );
+    }
+    if (isJobCompleted(job.status)) {
+      return job;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new EthoraJobTimeoutError(
+        `Job ${job.jobId} did not finish within ${timeoutMs}ms (last status '${job.status}')`,
+        { ...context, job }
+      );
+    }
+
+    await sleep(Math.min(delay, remaining), signal);
+    if (signal?.aborted) {
+      throw new EthoraAbortError(`Waiting for job ${job.jobId} was aborted`, {
+        ...context,
+        cause: signal.reason,
+      });
+    }
+    delay = Math.min(delay * backoffFactor, maxIntervalMs);
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Client-side rate limiting for the Ethora SDK
+ *
+ * Combines a token bucket (sustained rate + burst) with a cap on the number
+ * of in-flight requests. Callers beyond either limit are queued in FIFO order.
+ */
+
+import { getLogger } from "./logger";
+
+const logger = getLogger("rate-limiter");
+
+/**
+ * Limits applied to a group of requests
+ */
+export interface RateLimitConfig {
+  /** Sustained request rate (token refill rate). Unlimited when omitted */
+  requestsPerSecond?: number;
+  /** Token bucket size, i.e. how many requests may start at once. Defaults to `requestsPerSecond` */
+  burst?: number;
+  /** Maximum number of requests in flight at the same time. Unlimited when omitted */
+  maxConcurrent?: number;
+}
+
+/**
+ * Rate limiter configuration for an EthoraSDKService instance
+ */
+export interface RateLimiterConfig extends RateLimitConfig {
+  /**
+   * Additional limits per route family, keyed by path pattern.
+   *
+   * `{param}` matches a single path segment and a trailing `/...` matches any
+   * sub-path, e.g. `/v2/apps/{appId}/...` or `/v2/chats/users-access`.
+   * The first matching pattern applies on top of the instance-wide limits.
+   */
+  routes?: Record<string, RateLimitConfig>;
+  /** Called whenever a queued request is released, with the time it waited */
+  onDequeue?: (event: RateLimitEvent) => void;
+}
+
+/**
+ * Event emitted when a queued request is released
+ */
+export interface RateLimitEvent {
+  /** `global` or the matching route pattern */
+  limiter: string;
+  /** Time spent waiting in the queue in milliseconds */
+  waitMs: number;
+  /** Requests still waiting after this one was released */
+  queueDepth: number;
+}
+
+/**
+ * Point-in-time limiter statistics
+ */
+export interface RateLimiterStats {
+  /** Requests currently waiting */
+  queueDepth: number;
+  /** Requests currently running */
+  inFlight: number;
+  /** Tokens currently available in the bucket (Infinity when unlimited) */
+  availableTokens: number;
+  /** Total requests that passed through the limiter */
+  totalRequests: number;
+  /** Total requests that had to wait */
+  totalQueued: number;
+  /** Cumulative wait time in milliseconds */
+  totalWaitMs: number;
+  /** Longest single wait in milliseconds */
+  maxWaitMs: number;
+}
+
+/**
+ * Token bucket combined with a concurrency cap
+ */
+export class RequestLimiter {
+  private readonly rate: number;
+  private readonly capacity: number;
+  private readonly maxConcurrent: number;
+  private readonly queue: Array<{ enqueuedAt: number; resolve: (waitMs: number) => void }> = [];
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private stats = { totalRequests: 0, totalQueued: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(
+    private readonly name: string,
+    config: RateLimitConfig,
+    private readonly onDequeue?: (event: RateLimitEvent) => void
+  ) {
+    this.rate = config.requestsPerSecond ?? Infinity;
+    this.capacity = config.burst ?? (Number.isFinite(this.rate) ? Math.max(1, this.rate) : Infinity);
+    this.maxConcurrent = config.maxConcurrent ?? Infinity;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Waits for a slot to become available
+   *
+   * @param signal - Removes the caller from the queue when aborted
+   * @returns Time spent waiting in milliseconds
+   */
+  acquire(signal?: AbortSignal): Promise<number> {
+    this.stats.totalRequests++;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal!.reason);
+        }
+      };
+      const entry = {
+        enqueuedAt: Date.now(),
+        resolve: (waitMs: number) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(waitMs);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Releases a slot acquired with `acquire`
+   */
+  release(): void {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+    this.drain();
+  }
+
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      queueDepth: this.queue.length,
+      inFlight: this.inFlight,
+      availableTokens: Number.isFinite(this.tokens) ? Math.floor(this.tokens) : Infinity,
+      ...this.stats,
+    };
+  }
+
+  private refill(): void {
+    if (!Number.isFinite(this.rate)) {
+      return;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      if (this.inFlight >= this.maxConcurrent) {
+        return;
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.scheduleDrain(((1 - this.tokens) / this.rate) * 1000);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.inFlight++;
+      const entry = this.queue.shift()!;
+      const waitMs = Date.now() - entry.enqueuedAt;
+      if (waitMs > 0) {
+        this.stats.totalQueued++;
+        this.stats.totalWaitMs += waitMs;
+        this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitMs);
+        logger.debug(`[${this.name}] request released after ${waitMs}ms (queue depth: ${this.queue.length})`);
+        this.onDequeue?.({ limiter: this.name, waitMs, queueDepth: this.queue.length });
+      }
+      entry.resolve(waitMs);
+    }
+  }
+
+  private scheduleDrain(delayMs: number): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.ceil(delayMs));
+  }
+}
+
+/**
+ * Compiles a route pattern such as `/v2/apps/{appId}/...` into a matcher
+ */
+function compileRoutePattern(pattern: string): RegExp {
+  const wildcard = pattern.endsWith("/...");
+  const base = wildcard ? pattern.slice(0, -4) : pattern;
+  const source = base
+    .split(/(\{[^}]+\})/)
+    .map((part) => (/^\{[^}]+\}$/.test(part) ? "[^/]+" : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}${wildcard ? "(/.*)?" : ""}$`);
+}
+
+/**
+ * Instance-wide limiter plus optional per-route limiters
+ */
+export class RateLimiter {
+  private readonly global: RequestLimiter | null;
+  private readonly routes: Array<{ pattern: string; matcher: RegExp; limiter: RequestLimiter }>;
+
+  constructor(config: RateLimiterConfig) {
+    const { routes = {}, onDequeue, ...globalConfig } = config;
+    const hasGlobalLimits =
+      globalConfig.requestsPerSecond !== undefined || globalConfig.maxConcurrent !== undefined;
+
+    this.global = hasGlobalLimits ? new RequestLimiter("global", globalConfig, onDequeue) : null;
+    this.routes = Object.entries(routes).map(([pattern, routeConfig]) => ({
+      pattern,
+      matcher: compileRoutePattern(pattern),
+      limiter: new RequestLimiter(pattern, routeConfig, onDequeue),
+    }));
+  }
+
+  /**
+   * Runs a task under the limits that apply to the given path
+   *
+   * @param path - Request path relative to the API base URL (query string is ignored)
+   * @param task - The request to run
+   * @param signal - Abandons the wait (rejecting with the abort reason) when aborted
+   */
+  async schedule<T>(path: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const pathname = path.split("?")[0];
+    const route = this.routes.find((entry) => entry.matcher.test(pathname));
+    const limiters = [route?.limiter, this.global].filter(
+      (limiter): limiter is RequestLimiter => !!limiter
+    );
+
+    // Acquire in a fixed order (route first, then global) so slots cannot deadlock
+    const acquired: RequestLimiter[] = [];
+    try {
+      for (const limiter of limiters) {
+        await limiter.acquire(signal);
+        acquired.push(limiter);
+      }
+      return await task();
+    } finally {
+      for (const limiter of acquired) {
+        limiter.release();
+      }
+    }
+  }
+
+  /**
+   * Returns statistics keyed by `global` and by route pattern
+   */
+  getStats(): Record<string, RateLimiterStats> {
+    const stats: Record<string, RateLimiterStats> = {};
+    if (this.global) {
+      stats.global = this.global.getStats();
+    }
+    for (const route of this.routes) {
+      stats[route.pattern] = route.limiter.getStats();
+    }
+    return stats;
+  }
+}
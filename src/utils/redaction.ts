@@ -0,0 +1,227 @@
+/**
+ * Log redaction for the Ethora SDK
+ *
+ * Masks credentials and personal data (JWTs, passwords, emails, ...) in log
+ * messages and structured log arguments before they reach a log sink.
+ */
+
+/**
+ * Redaction policy
+ */
+export interface RedactionPolicy {
+  /**
+   * Object keys whose values are masked wherever they appear (case-insensitive).
+   * Also applied to `"key": "value"` and `key=value` pairs inside messages.
+   */
+  keys: string[];
+  /**
+   * Dot-separated paths masked in structured arguments, where `*` matches any
+   * key or array index (e.g. `usersList.*.firstName`)
+   */
+  paths: string[];
+  /** Mask JWTs and `Bearer` credentials found in free text */
+  maskTokens: boolean;
+  /** Mask email addresses found in free text */
+  maskEmails: boolean;
+  /** Replacement for masked values */
+  censor: string;
+  /**
+   * Disables redaction entirely. For local development only: logs will
+   * contain live credentials. Can also be enabled with `ETHORA_LOG_UNSAFE_DEBUG=true`.
+   */
+  unsafeDebug: boolean;
+}
+
+/**
+ * Default redaction policy
+ */
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  keys: [
+    "password",
+    "token",
+    "accessToken",
+    "refreshToken",
+    "secret",
+    "appSecret",
+    "chatAppSecret",
+    "authorization",
+    "x-custom-token",
+    "apiKey",
+    "email",
+  ],
+  paths: [],
+  maskTokens: true,
+  maskEmails: true,
+  censor: "[REDACTED]",
+  unsafeDebug: false,
+};
+
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const BEARER_PATTERN = /\bBearer\s+[A-Za-z0-9._~+/=-]+/gi;
+// Room JIDs (`<appId>_<chatId>@conference.<domain>`) are identifiers, not addresses
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@(?!conference\.)[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+let activePolicy: RedactionPolicy = { ...DEFAULT_REDACTION_POLICY };
+
+/**
+ * Updates the redaction policy used by all SDK loggers
+ *
+ * @param overrides - Policy fields to change; omitted fields keep their current value
+ * @returns The resulting policy
+ */
+export function configureRedaction(overrides: Partial<RedactionPolicy>): RedactionPolicy {
+  activePolicy = { ...activePolicy, ...overrides };
+  return activePolicy;
+}
+
+/**
+ * Returns the active redaction policy
+ */
+export function getRedactionPolicy(): RedactionPolicy {
+  return activePolicy;
+}
+
+/**
+ * Checks whether redaction is disabled by the policy or the environment
+ */
+export function isRedactionDisabled(policy: RedactionPolicy = activePolicy): boolean {
+  return policy.unsafeDebug || process.env.ETHORA_LOG_UNSAFE_DEBUG === "true";
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const keyPatternCache = new WeakMap<RedactionPolicy, { json: RegExp; plain: RegExp } | null>();
+
+/**
+ * Builds (once per policy) the patterns matching sensitive keys inside free text
+ */
+function compileKeyPatterns(policy: RedactionPolicy): { json: RegExp; plain: RegExp } | null {
+  let patterns = keyPatternCache.get(policy);
+  if (patterns === undefined) {
+    const keys = policy.keys.map(escapeRegExp).join("|");
+    patterns = keys
+      ? {
+          // "key": "value" (JSON)
+          json: new RegExp(`("(?:${keys})"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"`, "gi"),
+          // key=value and key: value (plain text)
+          plain: new RegExp(`(\\b(?:${keys})\\s*[=:]\\s*)(?!["\\s])[^\\s,;&"'}]+`, "gi"),
+        }
+      : null;
+    keyPatternCache.set(policy, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Masks secrets and personal data in a string
+ *
+ * @param text - The text to redact
+ * @param policy - The policy to apply (defaults to the active policy)
+ * @returns The redacted text
+ */
+export function redactString(text: string, policy: RedactionPolicy = activePolicy): string {
+  if (isRedactionDisabled(policy)) {
+    return text;
+  }
+
+  let result = text;
+  const keyPatterns = compileKeyPatterns(policy);
+  if (keyPatterns) {
+    result = result
+      .replace(keyPatterns.json, `$1"${policy.censor}"`)
+      .replace(keyPatterns.plain, `$1${policy.censor}`);
+  }
+  if (policy.maskTokens) {
+    result = result
+      .replace(BEARER_PATTERN, `Bearer ${policy.censor}`)
+      .replace(JWT_PATTERN, policy.censor);
+  }
+  if (policy.maskEmails) {
+    result = result.replace(EMAIL_PATTERN, policy.censor);
+  }
+  return result;
+}
+
+function matchesPath(path: string[], pattern: string[]): boolean {
+  return (
+    path.length === pattern.length &&
+    pattern.every((segment, index) => segment === "*" || segment === path[index])
+  );
+}
+
+/**
+ * Returns a redacted deep copy of a structured value
+ *
+ * Values under sensitive keys or paths are replaced with the censor, strings
+ * are passed through `redactString`, and errors keep their name while their
+ * message and stack are redacted. Other class instances are redacted through
+ * their `toJSON()` form when they have one and passed through otherwise.
+ *
+ * @param value - The value to redact
+ * @param policy - The policy to apply (defaults to the active policy)
+ * @returns The redacted copy
+ */
+export function redactValue<T>(value: T, policy: RedactionPolicy = activePolicy): T {
+  if (isRedactionDisabled(policy)) {
+    return value;
+  }
+
+  const keys = new Set(policy.keys.map((key) => key.toLowerCase()));
+  const paths = policy.paths.map((path) => path.split("."));
+  const seen = new WeakSet<object>();
+
+  const visit = (current: unknown, path: string[]): unknown => {
+    if (typeof current === "string") {
+      return redactString(current, policy);
+    }
+    if (!current || typeof current !== "object") {
+      return current;
+    }
+    if (seen.has(current)) {
+      return "[Circular]";
+    }
+    seen.add(current);
+
+    if (current instanceof Error) {
+      const copy = Object.create(Object.getPrototypeOf(current)) as Error;
+      for (const [key, entry] of Object.entries(current)) {
+        (copy as unknown as Record<string, unknown>)[key] = visit(entry, [...path, key]);
+      }
+      Object.defineProperty(copy, "message", {
+        value: redactString(current.message, policy),
+        enumerable: false,
+        writable: true,
+        configurable: true,
+      });
+      Object.defineProperty(copy, "stack", {
+        value: current.stack && redactString(current.stack, policy),
+        enumerable: false,
+        writable: true,
+        configurable: true,
+      });
+      return copy;
+    }
+    if (Array.isArray(current)) {
+      return current.map((entry, index) => visit(entry, [...path, String(index)]));
+    }
+    const prototype = Object.getPrototypeOf(current);
+    if (prototype !== Object.prototype && prototype !== null) {
+      // Class instances are only inspected through their JSON form (e.g. Axios headers)
+      const toJSON = (current as { toJSON?: () => unknown }).toJSON;
+      return typeof toJSON === "function" ? visit(toJSON.call(current), path) : current;
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(current)) {
+      const entryPath = [...path, key];
+      const sensitive =
+        keys.has(key.toLowerCase()) || paths.some((pattern) => matchesPath(entryPath, pattern));
+      copy[key] = sensitive && entry !== undefined ? policy.censor : visit(entry, entryPath);
+    }
+    return copy;
+  };
+
+  return visit(value, []) as T;
+}
@@ -0,0 +1,219 @@
+/**
+ * Request models: the constraints checked locally before a payload is sent
+ */
+
+import type { FieldSchema, ObjectSchema } from "./schema";
+
+/**
+ * Schema for one request payload or query
+ */
+export interface RequestModel {
+  /** Model name used in validation messages */
+  name: string;
+  schema: ObjectSchema;
+}
+
+const optionalString: FieldSchema = { type: "string", optional: true };
+const optionalBoolean: FieldSchema = { type: "boolean", optional: true };
+const requiredString: FieldSchema = { type: "string", nonEmpty: true };
+const optionalStringList: FieldSchema = {
+  type: "array",
+  optional: true,
+  items: requiredString,
+};
+// The API rejects last names shorter than 2 characters
+const lastName: FieldSchema = { type: "string", minLength: 2 };
+const offset: FieldSchema = { type: "number", optional: true, integer: true, min: 0 };
+
+function limit(max?: number): FieldSchema {
+  return { type: "number", optional: true, integer: true, min: 1, max };
+}
+
+export const CREATE_APP_REQUEST: RequestModel = {
+  name: "CreateAppRequest",
+  schema: {
+    displayName: requiredString,
+    domainName: optionalString,
+    appTagline: optionalString,
+    logoImage: optionalString,
+    sublogoImage: optionalString,
+    primaryColor: optionalString,
+    bundleId: optionalString,
+  },
+};
+
+export const LIST_APPS_QUERY: RequestModel = {
+  name: "ListAppsQueryParams",
+  schema: {
+    limit: limit(),
+    offset,
+    order: { type: "string", optional: true, oneOf: ["asc", "desc"] },
+    orderBy: { type: "string", optional: true, oneOf: ["displayName", "createdAt"] },
+  },
+};
+
+export const BATCH_CREATE_USERS_REQUEST: RequestModel = {
+  name: "BatchCreateUsersRequest",
+  schema: {
+    bypassEmailConfirmation: optionalBoolean,
+    usersList: {
+      type: "array",
+      items: {
+        type: "object",
+        fields: {
+          email: { type: "string", format: "email" },
+          firstName: requiredString,
+          lastName,
+          password: optionalString,
+          uuid: optionalString,
+          profileImage: optionalString,
+        },
+      },
+    },
+  },
+};
+
+export const APP_TOKEN_REQUEST: RequestModel = {
+  name: "AppTokenRequest",
+  schema: { label: optionalString },
+};
+
+export const PROVISION_APP_REQUEST: RequestModel = {
+  name: "ProvisionAppRequest",
+  schema: {
+    rooms: {
+      type: "array",
+      optional: true,
+      items: { type: "object", fields: { title: optionalString, pinned: optionalBoolean } },
+    },
+  },
+};
+
+export const UPDATE_APP_BOT_REQUEST: RequestModel = {
+  name: "UpdateAppBotRequest",
+  schema: {
+    status: optionalString,
+    trigger: optionalString,
+    prompt: optionalString,
+    greetingMessage: optionalString,
+    chatId: optionalString,
+    isRAG: optionalBoolean,
+    botFirstName: optionalString,
+    botLastName: optionalString,
+  },
+};
+
+export const CREATE_APP_BROADCAST_REQUEST: RequestModel = {
+  name: "CreateAppBroadcastRequest",
+  schema: {
+    text: requiredString,
+    allRooms: optionalBoolean,
+    chatNames: optionalStringList,
+    chatIds: optionalStringList,
+    metadata: { type: "object", optional: true },
+    dryRun: optionalBoolean,
+  },
+};
+
+export const LIST_APP_CHATS_QUERY: RequestModel = {
+  name: "ListAppChatsQueryParams",
+  schema: { limit: limit(), offset, includeMembers: optionalBoolean },
+};
+
+export const CREATE_CHAT_ROOM_REQUEST: RequestModel = {
+  name: "CreateChatRoomRequest",
+  schema: { title: requiredString, uuid: requiredString, type: requiredString },
+};
+
+export const GRANT_ACCESS_REQUEST: RequestModel = {
+  name: "GrantAccessRequest",
+  schema: {
+    chatName: requiredString,
+    members: { type: "array", minLength: 1, items: requiredString },
+  },
+};
+
+export const UPDATE_USERS_REQUEST: RequestModel = {
+  name: "UpdateUsersRequest",
+  schema: {
+    users: {
+      type: "array",
+      items: {
+        type: "object",
+        // Server-managed fields (tokens, timestamps, auth settings) cannot be updated
+        exact: true,
+        fields: {
+          xmppUsername: requiredString,
+          firstName: { type: "string", optional: true, nonEmpty: true },
+          lastName: { ...lastName, optional: true },
+          username: optionalString,
+          profileImage: optionalString,
+          description: optionalString,
+          email: { type: "string", optional: true, format: "email" },
+          roles: optionalStringList,
+          tags: optionalStringList,
+          homeScreen: optionalString,
+          isProfileOpen: optionalBoolean,
+          isAssetsOpen: optionalBoolean,
+        },
+      },
+    },
+  },
+};
+
+export const GET_USERS_QUERY: RequestModel = {
+  name: "GetUsersQueryParams",
+  schema: {
+    chatName: optionalString,
+    xmppUsername: optionalString,
+    userId: optionalString,
+    limit: limit(500),
+    offset,
+  },
+};
+
+export const GET_USER_CHATS_QUERY: RequestModel = {
+  name: "GetUserChatsQueryParams",
+  schema: { limit: limit(), offset, includeMembers: optionalBoolean },
+};
+
+export const TENANT_MANIFEST: RequestModel = {
+  name: "TenantManifest",
+  schema: {
+    app: {
+      type: "object",
+      fields: { id: { ...requiredString, optional: true }, ...CREATE_APP_REQUEST.schema },
+    },
+    rooms: {
+      type: "array",
+      optional: true,
+      items: {
+        type: "object",
+        exact: true,
+        fields: {
+          chatId: requiredString,
+          title: requiredString,
+          description: optionalString,
+          type: optionalString,
+          members: optionalStringList,
+        },
+      },
+    },
+    bot: { type: "object", optional: true, exact: true, fields: UPDATE_APP_BOT_REQUEST.schema },
+    tokens: optionalStringList,
+    users: {
+      type: "array",
+      optional: true,
+      items: {
+        type: "object",
+        fields: {
+          userId: requiredString,
+          email: { type: "string", optional: true, format: "email" },
+          firstName: { type: "string", optional: true, nonEmpty: true },
+          lastName: { ...lastName, optional: true },
+          password: optionalString,
+        },
+      },
+    },
+  },
+};
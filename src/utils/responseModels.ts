@@ -0,0 +1,227 @@
+/**
+ * Response models: how each endpoint's response is normalized and validated
+ */
+
+import type {
+  ApiResponse,
+  App,
+  AppResponse,
+  AppToken,
+  AppTokenResponse,
+  BatchJobResponse,
+  BroadcastJobResponse,
+  ChatRoom,
+  ChatRoomResponse,
+  ChatUser,
+  ChatUserResponse,
+  PaginatedResponse,
+  ProvisionAppResponse,
+  UpdateUsersResponse,
+} from "../types";
+import {
+  normalizeApp,
+  normalizeAppToken,
+  normalizeChatRoom,
+  normalizeChatUser,
+  toAppResponse,
+  toAppTokenResponse,
+  toBatchJobResponse,
+  toBroadcastJobResponse,
+  toChatRoomResponse,
+  toChatUserResponse,
+  toPaginatedResponse,
+  toProvisionAppResponse,
+  toUpdateUsersResponse,
+} from "./normalize";
+import type { FieldSchema, ObjectSchema } from "./schema";
+
+/**
+ * Response validation mode
+ *
+ * - `off`: responses are not validated
+ * - `warn`: mismatches are logged as warnings and the response is returned
+ * - `strict`: mismatches reject the call with `EthoraResponseValidationError`
+ */
+export type ResponseValidationMode = "off" | "warn" | "strict";
+
+/**
+ * Every supported response validation mode
+ */
+export const RESPONSE_VALIDATION_MODES: readonly ResponseValidationMode[] = ["off", "warn", "strict"];
+
+/**
+ * Normalizer and schema for one response type
+ */
+export interface ResponseModel<R> {
+  /** Model name used in validation messages */
+  name: string;
+  normalize: (raw: ApiResponse) => R;
+  /** Expected shape of the normalized response */
+  schema: ObjectSchema;
+}
+
+const optionalString: FieldSchema = { type: "string", optional: true };
+const optionalNumber: FieldSchema = { type: "number", optional: true };
+const requiredId: FieldSchema = { type: "string", nonEmpty: true };
+const optionalStringList: FieldSchema = { type: "array", optional: true, items: { type: "string" } };
+
+export const APP_SCHEMA: ObjectSchema = {
+  id: requiredId,
+  displayName: optionalString,
+  domainName: optionalString,
+  createdAt: optionalString,
+};
+
+export const APP_TOKEN_SCHEMA: ObjectSchema = {
+  id: requiredId,
+  label: optionalString,
+  token: optionalString,
+};
+
+export const CHAT_USER_SCHEMA: ObjectSchema = {
+  id: requiredId,
+  xmppUsername: optionalString,
+  email: optionalString,
+  firstName: optionalString,
+  lastName: optionalString,
+  roles: optionalStringList,
+  tags: optionalStringList,
+};
+
+export const CHAT_ROOM_SCHEMA: ObjectSchema = {
+  id: requiredId,
+  name: optionalString,
+  title: optionalString,
+  members: {
+    type: "array",
+    optional: true,
+    // Members may be listed by XMPP username only, so their `id` is not required
+    items: { type: "object", fields: { id: optionalString, xmppUsername: optionalString } },
+  },
+};
+
+export const BATCH_JOB_SCHEMA: ObjectSchema = {
+  jobId: requiredId,
+  status: { type: "string", nonEmpty: true },
+  total: optionalNumber,
+  processed: optionalNumber,
+  results: { type: "array", optional: true, items: { type: "object" } },
+};
+
+export const BROADCAST_JOB_SCHEMA: ObjectSchema = {
+  jobId: requiredId,
+  status: { type: "string", nonEmpty: true },
+  total: optionalNumber,
+  processed: optionalNumber,
+  failed: optionalNumber,
+};
+
+function paginatedSchema(itemSchema: ObjectSchema): ObjectSchema {
+  return {
+    items: { type: "array", items: { type: "object", fields: itemSchema } },
+    total: optionalNumber,
+    limit: optionalNumber,
+    offset: optionalNumber,
+  };
+}
+
+function paginatedModel<T>(
+  name: string,
+  listKeys: string[],
+  normalize: (item: unknown) => T,
+  itemSchema: ObjectSchema
+): ResponseModel<PaginatedResponse<T>> {
+  return {
+    name,
+    normalize: (raw) => toPaginatedResponse(raw, listKeys, normalize),
+    schema: paginatedSchema(itemSchema),
+  };
+}
+
+export const APP_RESPONSE: ResponseModel<AppResponse> = {
+  name: "AppResponse",
+  normalize: toAppResponse,
+  schema: { app: { type: "object", fields: APP_SCHEMA } },
+};
+
+export const APP_LIST_RESPONSE = paginatedModel<App>(
+  "PaginatedResponse<App>",
+  ["apps"],
+  normalizeApp,
+  APP_SCHEMA
+);
+
+export const APP_TOKEN_RESPONSE: ResponseModel<AppTokenResponse> = {
+  name: "AppTokenResponse",
+  normalize: toAppTokenResponse,
+  schema: { appToken: { type: "object", fields: APP_TOKEN_SCHEMA } },
+};
+
+export const APP_TOKEN_LIST_RESPONSE = paginatedModel<AppToken>(
+  "PaginatedResponse<AppToken>",
+  ["tokens"],
+  normalizeAppToken,
+  APP_TOKEN_SCHEMA
+);
+
+export const CHAT_USER_RESPONSE: ResponseModel<ChatUserResponse> = {
+  name: "ChatUserResponse",
+  normalize: toChatUserResponse,
+  schema: { user: { type: "object", fields: CHAT_USER_SCHEMA } },
+};
+
+export const CHAT_USER_LIST_RESPONSE = paginatedModel<ChatUser>(
+  "PaginatedResponse<ChatUser>",
+  ["users"],
+  normalizeChatUser,
+  CHAT_USER_SCHEMA
+);
+
+export const CHAT_ROOM_RESPONSE: ResponseModel<ChatRoomResponse> = {
+  name: "ChatRoomResponse",
+  normalize: toChatRoomResponse,
+  schema: { chat: { type: "object", fields: CHAT_ROOM_SCHEMA } },
+};
+
+export const CHAT_ROOM_LIST_RESPONSE = paginatedModel<ChatRoom>(
+  "PaginatedResponse<ChatRoom>",
+  ["chats", "rooms"],
+  normalizeChatRoom,
+  CHAT_ROOM_SCHEMA
+);
+
+export const BATCH_JOB_RESPONSE: ResponseModel<BatchJobResponse> = {
+  name: "BatchJobResponse",
+  normalize: toBatchJobResponse,
+  schema: { job: { type: "object", fields: BATCH_JOB_SCHEMA } },
+};
+
+export const BROADCAST_JOB_RESPONSE: ResponseModel<BroadcastJobResponse> = {
+  name: "BroadcastJobResponse",
+  normalize: toBroadcastJobResponse,
+  schema: { job: { type: "object", fields: BROADCAST_JOB_SCHEMA } },
+};
+
+export const PROVISION_APP_RESPONSE: ResponseModel<ProvisionAppResponse> = {
+  name: "ProvisionAppResponse",
+  normalize: toProvisionAppResponse,
+  schema: { rooms: { type: "array", items: { type: "object", fields: CHAT_ROOM_SCHEMA } } },
+};
+
+export const UPDATE_USERS_RESPONSE: ResponseModel<UpdateUsersResponse> = {
+  name: "UpdateUsersResponse",
+  normalize: toUpdateUsersResponse,
+  schema: {
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        fields: {
+          xmppUsername: requiredId,
+          status: { type: "string", nonEmpty: true },
+          user: { type: "object", optional: true, fields: CHAT_USER_SCHEMA },
+        },
+      },
+    },
+  },
+};
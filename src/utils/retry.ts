@@ -0,0 +1,157 @@
+/**
+ * Retry policy utilities for the Ethora SDK
+ */
+
+import { EthoraApiError, EthoraNetworkError, EthoraRateLimitError } from "../errors";
+
+/**
+ * Jitter strategy applied to the exponential backoff delay
+ *
+ * - `full`: random delay between 0 and the computed backoff
+ * - `equal`: half the backoff plus a random share of the other half
+ * - `none`: always wait the computed backoff
+ */
+export type RetryJitter = "full" | "equal" | "none";
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for any single delay in milliseconds */
+  maxDelayMs: number;
+  /** Jitter strategy */
+  jitter: RetryJitter;
+  /** HTTP status codes that are considered transient */
+  retryableStatuses: number[];
+  /** Whether to wait at least as long as the server's `Retry-After` header */
+  respectRetryAfter: boolean;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  jitter: "full",
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+/**
+ * HTTP methods that are retried without being explicitly marked idempotent
+ */
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Merges policy overrides on top of a base policy
+ *
+ * @param base - The policy to start from
+ * @param overrides - Partial overrides (or `false` to disable retries)
+ * @returns The resulting policy
+ */
+export function mergeRetryPolicy(
+  base: RetryPolicy,
+  overrides?: Partial<RetryPolicy> | false
+): RetryPolicy {
+  if (overrides === false) {
+    return { ...base, maxAttempts: 1 };
+  }
+  return { ...base, ...overrides };
+}
+
+/**
+ * Checks whether a request with the given method may be retried
+ *
+ * @param method - Upper-case HTTP method
+ * @param idempotent - Whether the caller marked the request as idempotent
+ */
+export function isRetryableMethod(method: string, idempotent?: boolean): boolean {
+  if (idempotent !== undefined) {
+    return idempotent;
+  }
+  return IDEMPOTENT_METHODS.includes(method);
+}
+
+/**
+ * Checks whether an error is transient according to the policy
+ *
+ * @param error - The error raised by the failed attempt
+ * @param policy - The active retry policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof EthoraNetworkError) {
+    return true;
+  }
+  if (error instanceof EthoraApiError && error.status !== undefined) {
+    return policy.retryableStatuses.includes(error.status);
+  }
+  return false;
+}
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * @param policy - The active retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param error - The error raised by that attempt, used to honor `Retry-After`
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error?: unknown
+): number {
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+
+  let delay: number;
+  switch (policy.jitter) {
+    case "full":
+      delay = Math.random() * backoff;
+      break;
+    case "equal":
+      delay = backoff / 2 + Math.random() * (backoff / 2);
+      break;
+    default:
+      delay = backoff;
+  }
+
+  if (
+    policy.respectRetryAfter &&
+    error instanceof EthoraRateLimitError &&
+    error.retryAfterMs !== undefined
+  ) {
+    delay = Math.max(delay, Math.min(error.retryAfterMs, policy.maxDelayMs));
+  }
+
+  return Math.round(delay);
+}
+
+/**
+ * Resolves after the given number of milliseconds, or as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
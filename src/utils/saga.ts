@@ -0,0 +1,131 @@
+/**
+ * Sequential multi-step operations with compensation and a resumable step journal
+ */
+
+import type { SagaOptions, SagaStepOutput, SagaStepRecord } from "../types";
+import { EthoraApiError, EthoraSagaError } from "../errors";
+
+/**
+ * One step of a saga
+ */
+export interface SagaStep {
+  name: string;
+  /**
+   * Performs the step. The returned output is recorded in the journal and must
+   * be JSON-serializable, so a persisted journal can compensate or resume it.
+   *
+   * @param outputs - Outputs of the steps completed so far, by step name
+   */
+  run: (outputs: Record<string, SagaStepOutput>) => Promise<SagaStepOutput>;
+  /** Undoes a completed step given its recorded output */
+  compensate?: (output: SagaStepOutput) => Promise<void>;
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs the steps in order, recording each one in a journal
+ *
+ * Steps recorded as completed in `resumeFrom` are skipped and their outputs
+ * reused. When a step fails, the completed steps are compensated in reverse
+ * order (unless `compensate` is false) and an `EthoraSagaError` carrying the
+ * journal is thrown. A compensation that fails is recorded and the remaining
+ * ones still run.
+ *
+ * @param operation - Name of the operation, used in error messages
+ * @param steps - The steps to run
+ * @param options - Journal to resume from, compensation and journal callback
+ * @returns The journal of the completed run
+ */
+export async function runSaga(
+  operation: string,
+  steps: SagaStep[],
+  options: SagaOptions = {}
+): Promise<SagaStepRecord[]> {
+  const { resumeFrom = [], compensate = true, onStep } = options;
+  const previous = new Map(
+    resumeFrom.filter((record) => record.status === "completed").map((record) => [record.name, record])
+  );
+  const journal: SagaStepRecord[] = [];
+  const outputs: Record<string, SagaStepOutput> = {};
+
+  const record = async (entry: SagaStepRecord): Promise<void> => {
+    const index = journal.findIndex((existing) => existing.name === entry.name);
+    if (index >= 0) {
+      journal[index] = entry;
+    } else {
+      journal.push(entry);
+    }
+    await onStep?.(journal.map((existing) => ({ ...existing })));
+  };
+
+  for (const step of steps) {
+    const done = previous.get(step.name);
+    if (done) {
+      outputs[step.name] = done.output || {};
+      journal.push({ ...done });
+      continue;
+    }
+
+    let output: SagaStepOutput;
+    try {
+      output = await step.run(outputs);
+    } catch (error) {
+      await record({
+        name: step.name,
+        status: "failed",
+        error: describe(error),
+        finishedAt: new Date().toISOString(),
+      });
+      if (compensate) {
+        await compensateSteps(steps, journal, record);
+      }
+
+      const cause = error instanceof EthoraApiError ? error : undefined;
+      throw new EthoraSagaError(`${operation} failed at step '${step.name}': ${describe(error)}`, {
+        method: cause?.method,
+        url: cause?.url,
+        status: cause?.status,
+        requestId: cause?.requestId,
+        cause: error,
+        steps: journal.map((entry) => ({ ...entry })),
+      });
+    }
+
+    outputs[step.name] = output;
+    await record({
+      name: step.name,
+      status: "completed",
+      output,
+      finishedAt: new Date().toISOString(),
+    });
+  }
+  return journal;
+}
+
+async function compensateSteps(
+  steps: SagaStep[],
+  journal: SagaStepRecord[],
+  record: (entry: SagaStepRecord) => Promise<void>
+): Promise<void> {
+  const completed = journal.filter((entry) => entry.status === "completed").reverse();
+  for (const entry of completed) {
+    const step = steps.find((candidate) => candidate.name === entry.name);
+    if (!step?.compensate) {
+      continue;
+    }
+    try {
+      await step.compensate(entry.output || {});
+      await record({ ...entry, status: "compensated", finishedAt: new Date().toISOString() });
+    } catch (error) {
+      await record({
+        ...entry,
+        status: "compensation-failed",
+        error: describe(error),
+        finishedAt: new Date().toISOString(),
+      });
+    }
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Minimal runtime schema validation for Ethora API requests and responses
+ */
+
+import type { EthoraFieldError } from "../errors";
+
+/**
+ * Runtime type of a field
+ */
+export type SchemaType = "string" | "number" | "boolean" | "object" | "array";
+
+/**
+ * Expected shape of a single field
+ */
+export interface FieldSchema {
+  type: SchemaType;
+  /** Whether the field may be missing (`undefined` or `null`) */
+  optional?: boolean;
+  /** Rejects empty strings */
+  nonEmpty?: boolean;
+  /** Minimum string length or array size */
+  minLength?: number;
+  /** Maximum string length or array size */
+  maxLength?: number;
+  /** Minimum number value */
+  min?: number;
+  /** Maximum number value */
+  max?: number;
+  /** Rejects numbers with a fractional part */
+  integer?: boolean;
+  /** Allowed values */
+  oneOf?: readonly (string | number | boolean)[];
+  /** Format of a string value */
+  format?: "email";
+  /** Schema of the object's fields (type `object`) */
+  fields?: ObjectSchema;
+  /** Rejects fields not listed in `fields` (type `object`) */
+  exact?: boolean;
+  /** Schema of every array item (type `array`) */
+  items?: FieldSchema;
+}
+
+/**
+ * Expected shape of an object, keyed by field name. Unlisted fields are ignored.
+ */
+export type ObjectSchema = Record<string, FieldSchema>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (value === null) {
+    return "null";
+  }
+  return typeof value;
+}
+
+function validateField(
+  value: unknown,
+  schema: FieldSchema,
+  path: string,
+  issues: EthoraFieldError[]
+): void {
+  if (value === undefined || value === null) {
+    if (!schema.optional) {
+      issues.push({ path, message: `expected ${schema.type}, got ${typeOf(value)}` });
+    }
+    return;
+  }
+
+  const actual = typeOf(value);
+  if (actual !== schema.type) {
+    issues.push({ path, message: `expected ${schema.type}, got ${actual}` });
+    return;
+  }
+
+  if (schema.nonEmpty && value === "") {
+    issues.push({ path, message: "expected non-empty string" });
+  }
+  if (typeof value === "string" || Array.isArray(value)) {
+    const unit = typeof value === "string" ? "character" : "item";
+    const count = (n: number) => `${n} ${unit}${n === 1 ? "" : "s"}`;
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `expected at least ${count(schema.minLength)}` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `expected at most ${count(schema.maxLength)}` });
+    }
+  }
+  if (typeof value === "number") {
+    if (schema.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: "expected an integer" });
+    }
+    if (schema.min !== undefined && value < schema.min) {
+      issues.push({ path, message: `expected >= ${schema.min}` });
+    }
+    if (schema.max !== undefined && value > schema.max) {
+      issues.push({ path, message: `expected <= ${schema.max}` });
+    }
+  }
+  if (schema.oneOf && !schema.oneOf.includes(value as string | number | boolean)) {
+    issues.push({
+      path,
+      message: `expected one of ${schema.oneOf.map((option) => JSON.stringify(option)).join(", ")}`,
+    });
+  }
+  if (schema.format === "email" && !EMAIL_PATTERN.test(value as string)) {
+    issues.push({ path, message: "expected an email address" });
+  }
+  if (schema.fields) {
+    validateObject(value as Record<string, unknown>, schema.fields, path, issues);
+    if (schema.exact) {
+      for (const key of Object.keys(value as Record<string, unknown>)) {
+        if (!(key in schema.fields)) {
+          issues.push({ path: path ? `${path}.${key}` : key, message: "unsupported field" });
+        }
+      }
+    }
+  }
+  if (schema.items) {
+    (value as unknown[]).forEach((item, index) =>
+      validateField(item, schema.items!, path ? `${path}.${index}` : String(index), issues)
+    );
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: ObjectSchema,
+  path: string,
+  issues: EthoraFieldError[]
+): void {
+  for (const [key, fieldSchema] of Object.entries(schema)) {
+    validateField(value[key], fieldSchema, path ? `${path}.${key}` : key, issues);
+  }
+}
+
+/**
+ * Validates a value against an object schema
+ *
+ * @param value - The value to check
+ * @param schema - The expected shape
+ * @returns Every mismatch found, with dotted paths (empty when valid)
+ */
+export function validateSchema(value: unknown, schema: ObjectSchema): EthoraFieldError[] {
+  const issues: EthoraFieldError[] = [];
+  validateField(value, { type: "object", fields: schema }, "", issues);
+  return issues.map((issue) => ({ ...issue, path: issue.path || "(root)" }));
+}
@@ -0,0 +1,54 @@
+/**
+ * App snapshots: versioned copies of an app's configuration for backup and cloning
+ */
+
+import type { AppSnapshot, ImportAppOptions, TenantManifest, UUID } from "../types";
+
+/**
+ * Snapshot format version written by `exportApp` and accepted by `importApp`
+ */
+export const APP_SNAPSHOT_VERSION = 1;
+
+/**
+ * Converts a snapshot into a tenant manifest for the target app
+ *
+ * User and room IDs (including room members) are passed through `remapIds`.
+ * Roles and tags are left out because users are created without them. A bot
+ * `chatId` scoped to the source app is rescoped to the target app.
+ *
+ * @param snapshot - The snapshot to restore
+ * @param targetAppId - The app the manifest targets
+ * @param remapIds - Maps snapshot IDs to target IDs; defaults to keeping them
+ */
+export function snapshotToManifest(
+  snapshot: AppSnapshot,
+  targetAppId: UUID,
+  remapIds: NonNullable<ImportAppOptions["remapIds"]> = (id) => id
+): TenantManifest {
+  const users = snapshot.users.map(({ roles: _roles, tags: _tags, ...user }) => ({
+    ...user,
+    userId: remapIds(String(user.userId), "user"),
+  }));
+  const rooms = snapshot.rooms.map((room) => ({
+    ...room,
+    chatId: remapIds(String(room.chatId), "room"),
+    ...(room.members && { members: room.members.map((member) => remapIds(String(member), "user")) }),
+  }));
+
+  const sourcePrefix = `${snapshot.sourceAppId}_`;
+  const botChatId = snapshot.bot?.chatId;
+  const bot = snapshot.bot && {
+    ...snapshot.bot,
+    ...(botChatId?.startsWith(sourcePrefix) && {
+      chatId: `${targetAppId}_${remapIds(botChatId.slice(sourcePrefix.length), "room")}`,
+    }),
+  };
+
+  return {
+    app: { ...snapshot.app, id: targetAppId },
+    users,
+    rooms,
+    ...(bot && { bot }),
+    tokens: [...snapshot.tokens],
+  };
+}
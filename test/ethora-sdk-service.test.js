@@ -8,15 +8,40 @@ process.env.ETHORA_CHAT_APP_ID = 'app123';
 process.env.ETHORA_CHAT_APP_SECRET = 'secret123';
 
 const { EthoraSDKService } = require('../dist/repositories/EthoraSDKService');
+const {
+  EthoraAbortError,
+  EthoraApiError,
+  EthoraAuthError,
+  EthoraCircuitOpenError,
+  EthoraConflictError,
+  EthoraNetworkError,
+  EthoraNotFoundError,
+  EthoraRateLimitError,
+  EthoraSagaError,
+  EthoraTimeoutError,
+  EthoraValidationError,
+} = require('../dist/errors');
 
 function okResponse(data = { ok: true }) {
   return Promise.resolve({ data });
 }
 
-function axiosError(status, data) {
+// List mocks that ignore `offset` return their items on the first page only, so iteration ends
+function firstPage(config, data) {
+  return Number(new URL(config.url).searchParams.get('offset')) > 0 ? { items: [] } : data;
+}
+
+function axiosError(status, data, headers) {
   const error = new Error(`HTTP ${status}`);
   error.isAxiosError = true;
-  error.response = { status, data };
+  error.response = { status, data, headers };
+  return error;
+}
+
+function axiosNetworkError(code, message) {
+  const error = new Error(message);
+  error.isAxiosError = true;
+  error.code = code;
   return error;
 }
 
@@ -41,7 +66,7 @@ test('createUser sends v2 request and keeps uuid as provided', async () => {
 
   await service.createUser('user-1', {
     firstName: 'A',
-    lastName: 'B',
+    lastName: 'Bo',
     role: 'admin',
   });
 
@@ -51,7 +76,7 @@ test('createUser sends v2 request and keeps uuid as provided', async () => {
     'https://api.messenger-dev.vitall.com/v2/users/batch',
   );
   assert.equal(captured.data.usersList[0].uuid, 'user-1');
-  assert.equal(captured.data.usersList[0].lastName, 'User');
+  assert.equal(captured.data.usersList[0].lastName, 'Bo');
   assert.equal(captured.data.usersList[0].role, undefined);
 });
 
@@ -143,7 +168,7 @@ test('deleteChatRoom uses v1 endpoint and handles not-found 422 gracefully', asy
   assert.deepEqual(result, { ok: false, reason: 'Chat room not found' });
 });
 
-test('updateUsers validates limits and filters unsupported fields', async () => {
+test('updateUsers validates limits, strips userId and sends profile fields', async () => {
   const service = new EthoraSDKService();
   let captured;
 
@@ -153,6 +178,7 @@ test('updateUsers validates limits and filters unsupported fields', async () =>
   };
 
   await assert.rejects(() => service.updateUsers([]), /At least 1 user/);
+  await assert.rejects(() => service.updateUsers([]), EthoraValidationError);
   await assert.rejects(
     () =>
       service.updateUsers(
@@ -168,7 +194,7 @@ test('updateUsers validates limits and filters unsupported fields', async () =>
       firstName: 'John',
       lastName: 'Doe',
       profileImage: 'https://cdn/p.png',
-      email: 'drop-this@example.com',
+      email: 'jd@example.com',
       roles: ['admin'],
     },
   ]);
@@ -184,6 +210,8 @@ test('updateUsers validates limits and filters unsupported fields', async () =>
       firstName: 'John',
       lastName: 'Doe',
       profileImage: 'https://cdn/p.png',
+      email: 'jd@example.com',
+      roles: ['admin'],
     },
   ]);
 });
@@ -389,3 +417,1681 @@ test('grantChatbotAccessToChatRoom is removed from public service API', () => {
   const service = new EthoraSDKService();
   assert.equal(typeof service.grantChatbotAccessToChatRoom, 'undefined');
 });
+
+test('HTTP failures are mapped onto typed EthoraApiError subclasses', async () => {
+  const service = new EthoraSDKService({ retry: { maxAttempts: 1 } });
+  const responses = [
+    axiosError(401, { error: 'Invalid token' }),
+    axiosError(404, 'Not Found'),
+    axiosError(422, { error: 'User already exists' }),
+    axiosError(422, {
+      errors: [{ path: 'usersList.0.email', msg: 'Invalid email' }],
+    }),
+    axiosError(429, 'Too many requests', { 'retry-after': '2' }),
+    axiosError(503, 'Unavailable', { 'x-request-id': 'srv-req-1' }),
+  ];
+
+  service.httpClient.request = async () => {
+    throw responses.shift();
+  };
+
+  const auth = await service.getUsers().catch((error) => error);
+  assert.ok(auth instanceof EthoraAuthError);
+  assert.ok(auth instanceof EthoraApiError);
+  assert.equal(auth.status, 401);
+  assert.equal(auth.method, 'GET');
+  assert.equal(auth.url, 'https://api.messenger-dev.vitall.com/v2/chats/users');
+  assert.deepEqual(auth.body, { error: 'Invalid token' });
+  assert.equal(typeof auth.requestId, 'string');
+  assert.match(auth.message, /Invalid token/);
+
+  const notFound = await service.getApp('missing').catch((error) => error);
+  assert.ok(notFound instanceof EthoraNotFoundError);
+
+  const conflict = await service.createUser('u1').catch((error) => error);
+  assert.ok(conflict instanceof EthoraConflictError);
+  assert.equal(conflict.method, 'POST');
+
+  const validation = await service
+    .createUsersInApp('app-1', { usersList: [] })
+    .catch((error) => error);
+  assert.ok(validation instanceof EthoraValidationError);
+  assert.deepEqual(validation.fields, [
+    { path: 'usersList.0.email', message: 'Invalid email' },
+  ]);
+
+  const rateLimited = await service.listApps().catch((error) => error);
+  assert.ok(rateLimited instanceof EthoraRateLimitError);
+  assert.equal(rateLimited.retryAfterMs, 2000);
+
+  const serverError = await service.listApps().catch((error) => error);
+  assert.equal(serverError.constructor, EthoraApiError);
+  assert.equal(serverError.status, 503);
+  assert.equal(serverError.requestId, 'srv-req-1');
+});
+
+test('requests without a response raise network and timeout errors', async () => {
+  const service = new EthoraSDKService({ retry: { maxAttempts: 1 } });
+  const failures = [
+    axiosNetworkError('ECONNABORTED', 'timeout of 30000ms exceeded'),
+    axiosNetworkError('ECONNRESET', 'socket hang up'),
+  ];
+  let captured;
+
+  service.httpClient.request = async (config) => {
+    captured = config;
+    throw failures.shift();
+  };
+
+  const timeout = await service.listApps().catch((error) => error);
+  assert.ok(timeout instanceof EthoraTimeoutError);
+  assert.ok(timeout instanceof EthoraNetworkError);
+  assert.equal(timeout.requestId, captured.headers['x-request-id']);
+
+  const network = await service.listApps().catch((error) => error);
+  assert.ok(network instanceof EthoraNetworkError);
+  assert.equal(network instanceof EthoraTimeoutError, false);
+  assert.equal(network.status, undefined);
+});
+
+test('idempotent requests are retried on transient failures', async () => {
+  const service = new EthoraSDKService({
+    retry: { baseDelayMs: 1, maxDelayMs: 2 },
+  });
+  const requestIds = [];
+  let calls = 0;
+
+  service.httpClient.request = async (config) => {
+    calls += 1;
+    requestIds.push(config.headers['x-request-id']);
+    if (calls < 3) {
+      throw calls === 1
+        ? axiosError(502, 'Bad Gateway')
+        : axiosNetworkError('ECONNRESET', 'socket hang up');
+    }
+    return okResponse({ ok: true });
+  };
+
+  const result = await service.getApp('app-1');
+  assert.equal(result.ok, true);
+  assert.equal(calls, 3);
+  assert.equal(new Set(requestIds).size, 1);
+});
+
+test('retries stop at maxAttempts and report the attempt count', async () => {
+  const service = new EthoraSDKService({
+    retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 2 },
+  });
+  let calls = 0;
+
+  service.httpClient.request = async () => {
+    calls += 1;
+    throw axiosError(503, 'Unavailable');
+  };
+
+  const error = await service.deleteApp('app-1').catch((e) => e);
+  assert.ok(error instanceof EthoraApiError);
+  assert.equal(error.attempts, 2);
+  assert.equal(calls, 2);
+});
+
+test('POST is retried only when marked idempotent and 4xx is never retried', async () => {
+  const service = new EthoraSDKService({
+    retry: { baseDelayMs: 1, maxDelayMs: 2 },
+  });
+  let calls = 0;
+
+  service.httpClient.request = async () => {
+    calls += 1;
+    throw axiosError(503, 'Unavailable');
+  };
+
+  const plainPost = await service.createApp({ displayName: 'A' }).catch((e) => e);
+  assert.equal(plainPost.attempts, 1);
+  assert.equal(calls, 1);
+
+  calls = 0;
+  const idempotentPost = await service
+    .createApp({ displayName: 'A' }, { idempotent: true })
+    .catch((e) => e);
+  assert.equal(idempotentPost.attempts, 3);
+  assert.equal(calls, 3);
+
+  calls = 0;
+  const disabled = await service.getApp('app-1', { retry: false }).catch((e) => e);
+  assert.equal(disabled.attempts, 1);
+  assert.equal(calls, 1);
+
+  calls = 0;
+  service.httpClient.request = async () => {
+    calls += 1;
+    throw axiosError(401, 'Unauthorized');
+  };
+  const auth = await service.getApp('app-1').catch((e) => e);
+  assert.ok(auth instanceof EthoraAuthError);
+  assert.equal(calls, 1);
+});
+
+test('computeRetryDelay backs off exponentially and honors Retry-After', () => {
+  const { computeRetryDelay, DEFAULT_RETRY_POLICY } = require('../dist/utils/retry');
+  const policy = { ...DEFAULT_RETRY_POLICY, jitter: 'none', baseDelayMs: 100, maxDelayMs: 1000 };
+
+  assert.equal(computeRetryDelay(policy, 1), 100);
+  assert.equal(computeRetryDelay(policy, 3), 400);
+  assert.equal(computeRetryDelay(policy, 10), 1000);
+
+  const throttled = new EthoraRateLimitError('429', { retryAfterMs: 700 });
+  assert.equal(computeRetryDelay(policy, 1, throttled), 700);
+  assert.equal(
+    computeRetryDelay({ ...policy, respectRetryAfter: false }, 1, throttled),
+    100,
+  );
+});
+
+test('rate limiter caps in-flight requests and reports queue stats', async () => {
+  const events = [];
+  const service = new EthoraSDKService({
+    rateLimit: {
+      maxConcurrent: 2,
+      routes: { '/v2/apps/{appId}/chats/users-access': { maxConcurrent: 1 } },
+      onDequeue: (event) => events.push(event),
+    },
+  });
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let maxGrantsInFlight = 0;
+  let grantsInFlight = 0;
+
+  service.httpClient.request = async (config) => {
+    const isGrant = config.url.endsWith('/chats/users-access');
+    inFlight += 1;
+    if (isGrant) grantsInFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    maxGrantsInFlight = Math.max(maxGrantsInFlight, grantsInFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight -= 1;
+    if (isGrant) grantsInFlight -= 1;
+    return okResponse();
+  };
+
+  await Promise.all([
+    ...Array.from({ length: 4 }, (_, i) => service.getApp(`app-${i}`)),
+    ...Array.from({ length: 3 }, (_, i) =>
+      service.grantUserAccessToChatRoomInApp('app-1', 'room-1', `u${i}`),
+    ),
+  ]);
+
+  assert.equal(maxInFlight, 2);
+  assert.equal(maxGrantsInFlight, 1);
+  assert.ok(events.length > 0);
+
+  const stats = service.getRateLimiterStats();
+  assert.equal(stats.global.totalRequests, 7);
+  assert.equal(stats.global.queueDepth, 0);
+  assert.equal(stats.global.inFlight, 0);
+  assert.ok(stats.global.totalQueued > 0);
+  assert.equal(stats['/v2/apps/{appId}/chats/users-access'].totalRequests, 3);
+});
+
+test('rate limiter spaces requests according to the token bucket', async () => {
+  const service = new EthoraSDKService({
+    rateLimit: { requestsPerSecond: 50, burst: 1 },
+  });
+  const startedAt = [];
+
+  service.httpClient.request = async () => {
+    startedAt.push(Date.now());
+    return okResponse();
+  };
+
+  await Promise.all([service.listApps(), service.listApps(), service.listApps()]);
+
+  assert.equal(startedAt.length, 3);
+  assert.ok(startedAt[2] - startedAt[0] >= 35);
+  assert.ok(service.getRateLimiterStats().global.maxWaitMs >= 35);
+});
+
+test('circuit breaker opens after failures, fails fast and recovers via half-open', async () => {
+  const transitions = [];
+  const service = new EthoraSDKService({
+    retry: { maxAttempts: 1 },
+    circuitBreaker: {
+      failureThreshold: 2,
+      cooldownMs: 20,
+      onStateChange: ({ from, to }) => transitions.push(`${from}->${to}`),
+    },
+  });
+  let calls = 0;
+  let healthy = false;
+
+  service.httpClient.request = async () => {
+    calls += 1;
+    if (!healthy) throw axiosError(502, 'Bad Gateway');
+    return okResponse();
+  };
+
+  await service.getApp('a').catch(() => {});
+  await service.getApp('a').catch(() => {});
+  assert.equal(service.getCircuitState(), 'open');
+
+  const fastFail = await service.getApp('a').catch((e) => e);
+  assert.ok(fastFail instanceof EthoraCircuitOpenError);
+  assert.ok(fastFail instanceof EthoraApiError);
+  assert.ok(fastFail.retryAfterMs > 0);
+  assert.equal(calls, 2);
+
+  await new Promise((resolve) => setTimeout(resolve, 25));
+  healthy = true;
+  await service.getApp('a');
+
+  assert.equal(service.getCircuitState(), 'closed');
+  assert.deepEqual(transitions, ['closed->open', 'open->half-open', 'half-open->closed']);
+});
+
+test('circuit breaker ignores client errors and reopens on a failed trial', async () => {
+  const service = new EthoraSDKService({
+    retry: { maxAttempts: 1 },
+    circuitBreaker: { failureThreshold: 1, cooldownMs: 10 },
+  });
+  const responses = [axiosError(422, 'bad'), axiosError(503, 'down'), axiosError(503, 'down')];
+
+  service.httpClient.request = async () => {
+    throw responses.shift();
+  };
+
+  await service.getApp('a').catch(() => {});
+  assert.equal(service.getCircuitState(), 'closed');
+
+  await service.getApp('a').catch(() => {});
+  assert.equal(service.getCircuitState(), 'open');
+
+  await new Promise((resolve) => setTimeout(resolve, 15));
+  await service.getApp('a').catch(() => {});
+  assert.equal(service.getCircuitState(), 'open');
+});
+
+test('circuit breaker does not count aborts or client errors as successes', () => {
+  const { CircuitBreaker } = require('../dist/utils/circuitBreaker');
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 0 });
+  const down = new EthoraApiError('down', { status: 503 });
+
+  breaker.record(breaker.beforeRequest('GET', '/a'), down);
+  breaker.record(breaker.beforeRequest('GET', '/a'), new EthoraApiError('bad', { status: 422 }));
+  breaker.record(breaker.beforeRequest('GET', '/a'), down);
+  assert.equal(breaker.getState(), 'half-open');
+
+  const trial = breaker.beforeRequest('GET', '/a');
+  assert.equal(trial, true);
+  breaker.record(trial, new EthoraAbortError('aborted'));
+  assert.equal(breaker.getState(), 'half-open');
+
+  const nextTrial = breaker.beforeRequest('GET', '/a');
+  assert.equal(nextTrial, true);
+  breaker.record(nextTrial);
+  assert.equal(breaker.getState(), 'closed');
+});
+
+test('timeouts come from the instance config and can be overridden per call', async () => {
+  const service = new EthoraSDKService({ timeout: { total: 1234 } });
+  const timeouts = [];
+
+  service.httpClient.request = async (config) => {
+    timeouts.push(config.timeout);
+    return okResponse();
+  };
+
+  await service.getApp('app-1');
+  await service.getApp('app-1', { timeoutMs: 50 });
+
+  assert.deepEqual(timeouts, [1234, 50]);
+});
+
+test('AbortSignal cancels in-flight calls, retry back-off and queued attempts', async () => {
+  const axios = require('axios');
+  const service = new EthoraSDKService({
+    retry: { baseDelayMs: 1000, maxDelayMs: 1000, jitter: 'none' },
+    rateLimit: { maxConcurrent: 1 },
+  });
+  let calls = 0;
+
+  const preAborted = new AbortController();
+  preAborted.abort();
+  service.httpClient.request = async () => {
+    calls += 1;
+    return okResponse();
+  };
+  const early = await service
+    .getApp('app-1', { signal: preAborted.signal })
+    .catch((e) => e);
+  assert.ok(early instanceof EthoraAbortError);
+  assert.equal(calls, 0);
+
+  service.httpClient.request = async (config) => {
+    assert.ok(config.signal);
+    throw new axios.CanceledError('canceled');
+  };
+  const inFlight = await service
+    .getApp('app-1', { signal: new AbortController().signal })
+    .catch((e) => e);
+  assert.ok(inFlight instanceof EthoraAbortError);
+  assert.equal(inFlight.attempts, 1);
+
+  service.httpClient.request = async () => {
+    throw axiosError(503, 'Unavailable');
+  };
+  const duringBackoff = new AbortController();
+  const startedAt = Date.now();
+  const pending = service.getApp('app-1', { signal: duringBackoff.signal }).catch((e) => e);
+  setTimeout(() => duringBackoff.abort(), 10);
+  const backoffError = await pending;
+  assert.ok(backoffError instanceof EthoraAbortError);
+  assert.ok(Date.now() - startedAt < 500);
+
+  let release;
+  service.httpClient.request = () =>
+    new Promise((resolve) => {
+      release = () => resolve({ data: { ok: true } });
+    });
+  const blocking = service.getApp('app-1');
+  const queued = new AbortController();
+  const queuedCall = service.getApp('app-2', { signal: queued.signal }).catch((e) => e);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assert.equal(service.getRateLimiterStats().global.queueDepth, 1);
+  queued.abort();
+  assert.ok((await queuedCall) instanceof EthoraAbortError);
+  assert.equal(service.getRateLimiterStats().global.queueDepth, 0);
+  release();
+  await blocking;
+});
+
+test('a custom transport receives every request and drives error mapping', async () => {
+  const requests = [];
+  const transport = {
+    async request(req) {
+      requests.push(req);
+      if (req.url.endsWith('/missing')) {
+        return { status: 404, headers: { 'x-request-id': 'srv-1' }, data: { error: 'gone' } };
+      }
+      return { status: 200, headers: {}, data: { ok: true } };
+    },
+  };
+  const service = new EthoraSDKService({ transport, timeout: { total: 777 } });
+
+  const result = await service.getApp('app-1');
+  assert.equal(result.ok, true);
+  assert.equal(requests[0].method, 'GET');
+  assert.equal(requests[0].timeoutMs, 777);
+  assert.equal(requests[0].headers['Content-Type'], 'application/json');
+  assert.equal(requests[0].headers['x-request-id'], requests[0].requestId);
+  assert.ok(requests[0].headers.Authorization.startsWith('Bearer '));
+
+  const error = await service.getApp('missing').catch((e) => e);
+  assert.ok(error instanceof EthoraNotFoundError);
+  assert.equal(error.requestId, 'srv-1');
+});
+
+test('FetchTransport parses responses and maps timeouts, aborts and network failures', async () => {
+  const { FetchTransport } = require('../dist/transports/FetchTransport');
+  const base = { method: 'POST', url: 'https://example.test/x', headers: {}, timeoutMs: 1000 };
+
+  let captured;
+  const transport = new FetchTransport({
+    fetch: async (url, init) => {
+      captured = { url, init };
+      return new Response(JSON.stringify({ created: true }), {
+        status: 201,
+        headers: { 'X-Request-Id': 'abc' },
+      });
+    },
+  });
+  const response = await transport.request({ ...base, data: { name: 'a' } });
+  assert.equal(response.status, 201);
+  assert.deepEqual(response.data, { created: true });
+  assert.equal(response.headers['x-request-id'], 'abc');
+  assert.equal(captured.init.body, '{"name":"a"}');
+
+  const hanging = new FetchTransport({
+    fetch: (url, init) =>
+      new Promise((resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }),
+  });
+  const timedOut = await hanging.request({ ...base, timeoutMs: 10 }).catch((e) => e);
+  assert.ok(timedOut instanceof EthoraTimeoutError);
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 5);
+  const aborted = await hanging.request({ ...base, signal: controller.signal }).catch((e) => e);
+  assert.ok(aborted instanceof EthoraAbortError);
+
+  const failing = new FetchTransport({
+    fetch: async () => {
+      throw new TypeError('fetch failed');
+    },
+  });
+  const networkError = await failing.request(base).catch((e) => e);
+  assert.ok(networkError instanceof EthoraNetworkError);
+  assert.ok(!(networkError instanceof EthoraTimeoutError));
+});
+
+test('hooks run in order, can modify requests, short-circuit and recover errors', async () => {
+  const service = new EthoraSDKService({ retry: { maxAttempts: 1 } });
+  const events = [];
+  let captured;
+
+  service.httpClient.request = async (config) => {
+    captured = config;
+    if (config.url.endsWith('/chats/users-access')) {
+      throw axiosError(503, 'Unavailable');
+    }
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+
+  service.onRequest(async ({ operation, request }) => {
+    events.push(`request:${operation}`);
+    return { request: { ...request, headers: { ...request.headers, 'x-trace-id': 't-1' } } };
+  });
+  service.onRequest(({ request }) => {
+    events.push(`second:${request.headers['x-trace-id']}`);
+  });
+  service.onResponse(({ operation, attempts, durationMs, response }) => {
+    events.push(`response:${operation}:${attempts}`);
+    assert.ok(durationMs >= 0);
+    return { response: { ...response, data: { ...response.data, tagged: true } } };
+  });
+  const removeErrorHook = service.onError(({ operation, error }) => {
+    events.push(`error:${operation}:${error.status}`);
+    return { response: { status: 200, headers: {}, data: { recovered: true } } };
+  });
+
+  const result = await service.getApp('app-1');
+  assert.equal(captured.headers['x-trace-id'], 't-1');
+  assert.equal(result.tagged, true);
+
+  const recovered = await service.grantUserAccessToChatRoomInApp('app-1', 'chat-1', 'user-1');
+  assert.equal(recovered.recovered, true);
+  assert.deepEqual(events, [
+    'request:getApp',
+    'second:t-1',
+    'response:getApp:1',
+    'request:grantUserAccessToChatRoomInApp',
+    'second:t-1',
+    'error:grantUserAccessToChatRoomInApp:503',
+    'response:grantUserAccessToChatRoomInApp:0',
+  ]);
+
+  removeErrorHook();
+  await assert.rejects(
+    () => service.grantUserAccessToChatRoomInApp('app-1', 'chat-1', 'user-1'),
+    EthoraApiError
+  );
+
+  let sent = false;
+  service.httpClient.request = async () => {
+    sent = true;
+    return okResponse();
+  };
+  service.onRequest(({ operation }) =>
+    operation === 'getUserChats'
+      ? { response: { status: 200, headers: {}, data: { items: [{ _id: 'cached' }] } } }
+      : undefined
+  );
+  const cached = await service.getUserChats('user-1');
+  assert.equal(cached.items[0].id, 'cached');
+  assert.equal(sent, false);
+});
+
+test('logs never contain server JWTs, passwords or emails unless unsafe debug is enabled', async () => {
+  const {
+    configureRedaction,
+    redactString,
+    redactValue,
+  } = require('../dist/utils/redaction');
+  const service = new EthoraSDKService({ retry: { maxAttempts: 1 } });
+  const lines = [];
+  const originals = { debug: console.debug, info: console.info, error: console.error };
+  for (const level of Object.keys(originals)) {
+    console[level] = (...args) => lines.push(args.map((a) => (typeof a === 'string' ? a : JSON.stringify(a))).join(' '));
+  }
+
+  let token;
+  service.httpClient.request = async (config) => {
+    token = config.headers['x-custom-token'];
+    if (config.method === 'GET') {
+      throw axiosError(500, { error: 'boom', token });
+    }
+    return okResponse();
+  };
+
+  try {
+    await service.createUser('user-1', { email: 'jane@example.com', password: 'hunter22' });
+    await service.getApp('app-1').catch(() => {});
+  } finally {
+    Object.assign(console, originals);
+  }
+
+  const output = lines.join('\n');
+  assert.ok(token);
+  assert.ok(!output.includes(token));
+  assert.ok(!output.includes('hunter22'));
+  assert.ok(!output.includes('jane@example.com'));
+  assert.match(output, /\[REDACTED\]/);
+
+  assert.equal(
+    redactString('Bearer abc.def.ghi sent to bob@corp.io with password=secret1'),
+    'Bearer [REDACTED] sent to [REDACTED] with password=[REDACTED]'
+  );
+  assert.equal(
+    redactString("room app_chat-1@conference.xmpp.chat.ethora.com"),
+    'room app_chat-1@conference.xmpp.chat.ethora.com'
+  );
+
+  const previous = configureRedaction({ paths: ['usersList.*.firstName'] });
+  try {
+    assert.deepEqual(
+      redactValue({ usersList: [{ firstName: 'Jane', lastName: 'Doe', Password: 'x' }] }),
+      { usersList: [{ firstName: '[REDACTED]', lastName: 'Doe', Password: '[REDACTED]' }] }
+    );
+    configureRedaction({ unsafeDebug: true });
+    assert.equal(redactString('password=secret1'), 'password=secret1');
+  } finally {
+    configureRedaction({ ...previous, paths: [], unsafeDebug: false });
+  }
+});
+
+test('loggers are injectable globally and per instance with levels, JSON lines and adapters', async () => {
+  const {
+    JsonLinesLogger,
+    getLogger,
+    setLogLevel,
+    setLogger,
+    createPinoLogger,
+    createWinstonLogger,
+  } = require('../dist/index');
+
+  const lines = [];
+  const service = new EthoraSDKService({
+    logger: (context) => new JsonLinesLogger(context, { write: (line) => lines.push(JSON.parse(line)) }),
+  });
+  service.httpClient.request = async () => ({ status: 200, headers: {}, data: { ok: true } });
+
+  await service.getApp('app-42');
+  const success = lines.find((line) => line.message.includes('success'));
+  assert.equal(success.level, 'debug');
+  assert.equal(success.context, 'EthoraSDKService');
+  assert.equal(success.operation, 'getApp');
+  assert.equal(success.appId, 'app-42');
+  assert.equal(typeof success.durationMs, 'number');
+  assert.ok(success.timestamp);
+
+  lines.length = 0;
+  setLogLevel('warn');
+  try {
+    await service.getApp('app-42');
+    assert.equal(lines.length, 0);
+  } finally {
+    setLogLevel(null);
+  }
+
+  process.env.ETHORA_LOG_LEVEL = 'error';
+  try {
+    await service.getApp('app-42');
+    assert.equal(lines.length, 0);
+  } finally {
+    delete process.env.ETHORA_LOG_LEVEL;
+  }
+
+  const pinoCalls = [];
+  const pino = {};
+  for (const level of ['debug', 'info', 'warn', 'error']) {
+    pino[level] = (obj, msg) => pinoCalls.push({ level, obj, msg });
+  }
+  const winstonCalls = [];
+  const winston = { log: (level, message, meta) => winstonCalls.push({ level, message, meta }) };
+
+  setLogger(createPinoLogger(pino, 'app'));
+  try {
+    getLogger('some-module').error('failed for jane@example.com', new Error('x'), { operation: 'op' });
+  } finally {
+    setLogger(null);
+  }
+  assert.equal(pinoCalls[0].level, 'error');
+  assert.equal(pinoCalls[0].msg, 'failed for [REDACTED]');
+  assert.equal(pinoCalls[0].obj.context, 'app');
+  assert.equal(pinoCalls[0].obj.operation, 'op');
+  assert.ok(pinoCalls[0].obj.err instanceof Error);
+
+  createWinstonLogger(winston, 'svc').info('hello', { appId: 'a1' }, 'extra');
+  assert.deepEqual(winstonCalls[0], {
+    level: 'info',
+    message: 'hello',
+    meta: { context: 'svc', appId: 'a1', args: ['extra'] },
+  });
+});
+
+test('responses are normalized onto typed models regardless of envelope shape', async () => {
+  const service = new EthoraSDKService();
+  const responses = {};
+  service.httpClient.request = async (config) => ({
+    status: 200,
+    headers: {},
+    data: responses[`${config.method} ${config.url.replace(/^https?:\/\/[^/]+/, '')}`],
+  });
+
+  responses['POST /v2/apps'] = { ok: true, app: { _id: 'app-a', displayName: 'A' } };
+  const created = await service.createApp({ displayName: 'A' });
+  assert.equal(created.app.id, 'app-a');
+  assert.equal(created.app.displayName, 'A');
+  assert.equal(created.ok, true);
+
+  responses['GET /v2/apps/app-b'] = { result: { _id: 'app-b' } };
+  assert.equal((await service.getApp('app-b')).app.id, 'app-b');
+  responses['GET /v2/apps/app-c'] = { _id: 'app-c' };
+  assert.equal((await service.getApp('app-c')).app.id, 'app-c');
+
+  responses['GET /v2/apps'] = { apps: [{ _id: 'x' }, { _id: 'y' }], total: 7, limit: 2, offset: 0 };
+  const apps = await service.listApps();
+  assert.deepEqual(apps.items.map((app) => app.id), ['x', 'y']);
+  assert.equal(apps.total, 7);
+  assert.equal(apps.limit, 2);
+
+  responses['GET /v2/chats/users'] = { results: [{ _id: 'u1', xmppUsername: 'app123_u1' }] };
+  const users = await service.getUsers();
+  assert.equal(users.items[0].id, 'u1');
+  assert.equal(users.items[0].xmppUsername, 'app123_u1');
+
+  responses['GET /v2/apps/app123/users/u1/chats'] = {
+    result: { items: [{ name: 'app123_room', members: ['app123_u1'] }], total: '1' },
+  };
+  const chats = await service.getUserChats('u1');
+  assert.equal(chats.items[0].id, 'app123_room');
+  assert.equal(chats.items[0].members[0].xmppUsername, 'app123_u1');
+  assert.equal(chats.total, 1);
+
+  responses['POST /v2/apps/app-a/tokens'] = { token: 'secret-value', tokenInfo: { _id: 't1', label: 'ci' } };
+  const token = await service.createAppToken('app-a', { label: 'ci' });
+  assert.deepEqual([token.appToken.id, token.appToken.label, token.appToken.token], ['t1', 'ci', 'secret-value']);
+
+  responses['POST /v2/apps/app-a/users/batch'] = { jobId: 'job-1', status: 'pending' };
+  const batch = await service.createUsersInApp('app-a', { usersList: [] });
+  assert.equal(batch.job.jobId, 'job-1');
+  assert.equal(batch.job.status, 'pending');
+
+  responses['PATCH /v2/chats/users'] = {
+    results: [{ xmppUsername: 'app123_u1', status: 'updated', user: { _id: 'u1' } }],
+  };
+  const updated = await service.updateUsers([{ xmppUsername: 'app123_u1', firstName: 'A' }]);
+  assert.equal(updated.results[0].status, 'updated');
+  assert.equal(updated.results[0].user.id, 'u1');
+});
+
+test('response validation is off by default, logs in warn mode and rejects in strict mode', async () => {
+  const { EthoraResponseValidationError } = require('../dist/errors');
+  const drifted = { ok: true, app: { name: 'no id' } };
+
+  const off = new EthoraSDKService();
+  off.httpClient.request = async () => ({ status: 200, headers: {}, data: drifted });
+  assert.equal((await off.getApp('app-a')).app.id, '');
+
+  const warnings = [];
+  const noop = () => {};
+  const warn = new EthoraSDKService({
+    responseValidation: 'warn',
+    logger: { debug: noop, info: noop, error: noop, warn: (message, fields) => warnings.push({ message, fields }) },
+  });
+  warn.httpClient.request = async () => ({ status: 200, headers: {}, data: drifted });
+  assert.equal((await warn.getApp('app-a')).ok, true);
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0].message, /does not match AppResponse: app\.id/);
+  assert.equal(warnings[0].fields.operation, 'getApp');
+  assert.deepEqual(warnings[0].fields.fields.map((field) => field.path), ['app.id']);
+
+  process.env.ETHORA_RESPONSE_VALIDATION = 'strict';
+  try {
+    const strict = new EthoraSDKService();
+    strict.httpClient.request = async () => ({
+      status: 200,
+      headers: {},
+      data: { users: [{ _id: 'u1', roles: 'admin' }, { xmppUsername: 'app123_u2' }] },
+    });
+    await assert.rejects(strict.getUsers(), (error) => {
+      assert.ok(error instanceof EthoraResponseValidationError);
+      assert.ok(error instanceof EthoraApiError);
+      assert.deepEqual(error.fields.map((field) => field.path), ['items.0.roles', 'items.1.id']);
+      assert.equal(error.method, 'GET');
+      assert.equal(error.status, 200);
+      return true;
+    });
+
+    strict.httpClient.request = async () => ({ status: 200, headers: {}, data: { users: [{ _id: 'u1' }] } });
+    assert.equal((await strict.getUsers()).items[0].id, 'u1');
+
+    process.env.ETHORA_RESPONSE_VALIDATION = 'strct';
+    assert.throws(() => new EthoraSDKService(), /Unknown response validation mode 'strct'/);
+  } finally {
+    delete process.env.ETHORA_RESPONSE_VALIDATION;
+  }
+});
+
+test('request payloads are validated locally and every invalid field is reported', async () => {
+  const service = new EthoraSDKService();
+  let requests = 0;
+  service.httpClient.request = async () => {
+    requests += 1;
+    return okResponse();
+  };
+
+  const shortName = await service.createUser('u1', { firstName: 'A', lastName: 'B' }).catch((error) => error);
+  assert.ok(shortName instanceof EthoraValidationError);
+  assert.deepEqual(shortName.fields, [
+    { path: 'usersList.0.lastName', message: 'expected at least 2 characters' },
+  ]);
+
+  const batch = await service
+    .createUsersInApp('app-1', {
+      usersList: [
+        { email: 'not-an-email', firstName: '', lastName: 'Doe' },
+        { email: 'ok@example.com', firstName: 'Jo', lastName: 'Li' },
+      ],
+    })
+    .catch((error) => error);
+  assert.ok(batch instanceof EthoraValidationError);
+  assert.equal(batch.method, 'POST');
+  assert.deepEqual(batch.fields.map((field) => field.path), ['usersList.0.email', 'usersList.0.firstName']);
+  assert.match(batch.message, /invalid BatchCreateUsersRequest: usersList\.0\.email/);
+
+  const query = await service.getUsers({ limit: 501, offset: -1 }).catch((error) => error);
+  assert.deepEqual(query.fields, [
+    { path: 'limit', message: 'expected <= 500' },
+    { path: 'offset', message: 'expected >= 0' },
+  ]);
+
+  const broadcast = await service
+    .broadcastToAppChats('app-1', { text: '', chatIds: ['room-1', ''] })
+    .catch((error) => error);
+  assert.deepEqual(broadcast.fields.map((field) => field.path), ['text', 'chatIds.1']);
+
+  const apps = await service.listApps({ order: 'up' }).catch((error) => error);
+  assert.match(apps.fields[0].message, /expected one of "asc", "desc"/);
+
+  const update = await service.updateUsers([{ firstName: 'Jo' }]).catch((error) => error);
+  assert.deepEqual(update.fields.map((field) => field.path), ['users.0.xmppUsername']);
+
+  assert.ok((await service.createApp({ displayName: '' }).catch((error) => error)) instanceof EthoraValidationError);
+  assert.equal(requests, 0);
+
+  await service.getUsers({ limit: 500, offset: 0 });
+  await service.createUser('u2', { displayName: 'Jane Doe' });
+  assert.equal(requests, 2);
+});
+
+test('createUser defaults names the caller did not give', async () => {
+  const service = new EthoraSDKService();
+  const sent = [];
+  service.httpClient.request = async (config) => {
+    sent.push(config.data.usersList[0]);
+    return okResponse();
+  };
+
+  await service.createUser('u1', { displayName: 'Alice' });
+  await service.createUser('u2', { firstName: 'Bob' });
+  await service.createUser('u3', { lastName: 'Li' });
+  assert.deepEqual(
+    sent.map(({ firstName, lastName }) => [firstName, lastName]),
+    [['Alice', 'User'], ['Bob', 'User'], ['User', 'Li']]
+  );
+});
+
+test('iterators page through list endpoints and collectAll caps the result', async () => {
+  const { collectAll } = require('../dist/index');
+  const service = new EthoraSDKService();
+  const users = Array.from({ length: 7 }, (_, i) => ({ _id: `u${i}` }));
+  const urls = [];
+  service.httpClient.request = async (config) => {
+    urls.push(config.url.replace(/^https?:\/\/[^/]+/, ''));
+    const query = new URL(config.url).searchParams;
+    const limit = Number(query.get('limit'));
+    const offset = Number(query.get('offset'));
+    if (config.url.includes('/v2/apps/app-a/chats')) {
+      // Reports a total and caps the page size below the requested limit
+      return { status: 200, headers: {}, data: { items: [{ name: `room${offset}` }], total: 2 } };
+    }
+    return { status: 200, headers: {}, data: { items: users.slice(offset, offset + limit) } };
+  };
+
+  const ids = [];
+  for await (const user of service.iterateUsers({ chatName: 'app123_room' }, { pageSize: 3 })) {
+    ids.push(user.id);
+  }
+  assert.deepEqual(ids, ['u0', 'u1', 'u2', 'u3', 'u4', 'u5', 'u6']);
+  assert.deepEqual(urls, [
+    '/v2/chats/users?chatName=app123_room&limit=3&offset=0',
+    '/v2/chats/users?chatName=app123_room&limit=3&offset=3',
+    '/v2/chats/users?chatName=app123_room&limit=3&offset=6',
+    '/v2/chats/users?chatName=app123_room&limit=3&offset=7',
+  ]);
+
+  urls.length = 0;
+  const chats = await collectAll(service.iterateChatsInApp('app-a', {}, { pageSize: 50 }));
+  assert.deepEqual(chats.map((chat) => chat.id), ['room0', 'room1']);
+  assert.equal(urls.length, 2);
+
+  urls.length = 0;
+  const capped = await collectAll(service.iterateApps(undefined, { pageSize: 2 }), { maxItems: 3 });
+  assert.equal(capped.length, 3);
+  assert.equal(urls.length, 2);
+
+  urls.length = 0;
+  users.length = 4;
+  assert.equal((await collectAll(service.iterateUserChats('u1', undefined, { pageSize: 2 }))).length, 4);
+  assert.deepEqual(urls.map((url) => url.split('?')[1]), ['limit=2&offset=0', 'limit=2&offset=2', 'limit=2&offset=4']);
+
+  // Servers capping pages below pageSize are paged through until an empty page, or
+  // until a page shorter than the limit they report
+  let reportLimit = false;
+  service.httpClient.request = async (config) => {
+    urls.push(config.url.split('?')[1]);
+    const offset = Number(new URL(config.url).searchParams.get('offset'));
+    const data = { items: users.slice(offset, offset + 3), ...(reportLimit && { limit: 3 }) };
+    return { status: 200, headers: {}, data };
+  };
+  urls.length = 0;
+  const uncapped = await collectAll(service.iterateUsers(undefined, { pageSize: 5 }));
+  assert.deepEqual(uncapped.map((user) => user.id), ['u0', 'u1', 'u2', 'u3']);
+  assert.deepEqual(urls, ['limit=5&offset=0', 'limit=5&offset=3', 'limit=5&offset=4']);
+
+  urls.length = 0;
+  reportLimit = true;
+  assert.equal((await collectAll(service.iterateUsers(undefined, { pageSize: 5 }))).length, 4);
+  assert.deepEqual(urls, ['limit=5&offset=0', 'limit=5&offset=3']);
+});
+
+test('waitForBroadcastJob polls until done, reports progress and rejects on failure, timeout and abort', async () => {
+  const { EthoraJobFailedError, EthoraJobTimeoutError } = require('../dist/errors');
+  const service = new EthoraSDKService();
+  let states = [];
+  const polled = [];
+  service.httpClient.request = async (config) => {
+    if (config.method === 'POST') {
+      return { status: 202, headers: {}, data: { jobId: 'job-9', status: 'pending' } };
+    }
+    polled.push(config.url);
+    return { status: 200, headers: {}, data: states.length > 1 ? states.shift() : states[0] };
+  };
+
+  states = [
+    { jobId: 'job-9', status: 'running', total: 4, processed: 1, failed: 0 },
+    { jobId: 'job-9', status: 'running', total: 4, processed: 3, failed: 1 },
+    { jobId: 'job-9', status: 'completed', total: 4, processed: 4, failed: 1 },
+  ];
+  const progress = [];
+  const job = await service.broadcastAndWait(
+    'app-1',
+    { text: 'hello', allRooms: true },
+    { intervalMs: 1, onProgress: ({ delivered, failed, pending }) => progress.push([delivered, failed, pending]) },
+  );
+  assert.equal(job.status, 'completed');
+  assert.deepEqual(progress, [[1, 0, 3], [2, 1, 1], [3, 1, 0]]);
+  assert.equal(polled[0], 'https://api.messenger-dev.vitall.com/v2/apps/app-1/chats/broadcast/job-9');
+
+  states = [{ jobId: 'job-9', status: 'failed', error: 'boom' }];
+  const failed = await service.waitForBroadcastJob('app-1', 'job-9', { intervalMs: 1 }).catch((error) => error);
+  assert.ok(failed instanceof EthoraJobFailedError);
+  assert.equal(failed.job.error, 'boom');
+
+  states = [{ jobId: 'job-9', status: 'running' }];
+  const timedOut = await service
+    .waitForBroadcastJob('app-1', 'job-9', { intervalMs: 5, timeoutMs: 20 })
+    .catch((error) => error);
+  assert.ok(timedOut instanceof EthoraJobTimeoutError);
+  assert.equal(timedOut.job.status, 'running');
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 10);
+  const aborted = await service
+    .waitForBroadcastJob('app-1', 'job-9', { intervalMs: 1000, signal: controller.signal })
+    .catch((error) => error);
+  assert.ok(aborted instanceof EthoraAbortError);
+});
+
+test('waitForUsersBatchJob returns created, already-exists and failed rows', async () => {
+  const service = new EthoraSDKService();
+  const states = [
+    { job: { jobId: 'job-3', status: 'running', total: 4, processed: 1 } },
+    {
+      job: {
+        jobId: 'job-3',
+        status: 'completed',
+        total: 4,
+        processed: 4,
+        results: [
+          { uuid: 'u1', email: 'u1@example.com', status: 'created' },
+          { uuid: 'u2', status: 'error', error: 'User already exists' },
+          { uuid: 'u3', status: 'failed', reason: 'Invalid email' },
+          { uuid: 'u4', status: 'error', error: 'Role admin does not exist' },
+        ],
+      },
+    },
+  ];
+  service.httpClient.request = async () => ({ status: 200, headers: {}, data: states.shift() });
+
+  const seen = [];
+  const report = await service.waitForUsersBatchJob('app-1', 'job-3', {
+    intervalMs: 1,
+    onProgress: (job) => seen.push(job.processed),
+  });
+  assert.deepEqual(seen, [1, 4]);
+  assert.deepEqual(
+    report.results.map(({ uuid, status, reason }) => ({ uuid, status, reason })),
+    [
+      { uuid: 'u1', status: 'created', reason: undefined },
+      { uuid: 'u2', status: 'already-exists', reason: 'User already exists' },
+      { uuid: 'u3', status: 'failed', reason: 'Invalid email' },
+      { uuid: 'u4', status: 'failed', reason: 'Role admin does not exist' },
+    ],
+  );
+  assert.deepEqual(report.counts, { created: 1, 'already-exists': 1, failed: 2 });
+  assert.equal(report.results[0].raw.email, 'u1@example.com');
+});
+
+test('updateUsersBulk chunks users, bounds concurrency and merges results', async () => {
+  const service = new EthoraSDKService();
+  const users = Array.from({ length: 250 }, (_, i) => ({ xmppUsername: `app123_u${i}`, firstName: 'Jo' }));
+  const chunkSizes = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  service.httpClient.request = async (config) => {
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight -= 1;
+    const chunkUsers = config.data.users;
+    chunkSizes.push(chunkUsers.length);
+    if (chunkUsers[0].xmppUsername === 'app123_u100') {
+      return { status: 503, headers: {}, data: { error: 'unavailable' } };
+    }
+    return {
+      status: 200,
+      headers: {},
+      data: {
+        results: chunkUsers.map((user, i) => ({
+          xmppUsername: user.xmppUsername,
+          status: i === 0 ? 'not-found' : 'updated',
+        })),
+      },
+    };
+  };
+
+  const report = await service.updateUsersBulk(users, { concurrency: 2, continueOnError: true, retry: false });
+  assert.deepEqual(chunkSizes.sort(), [100, 100, 50]);
+  assert.equal(maxInFlight, 2);
+  assert.equal(report.results.length, 250);
+  assert.deepEqual(report.counts, { updated: 148, 'not-found': 2, skipped: 0, failed: 100 });
+  assert.equal(report.results[100].status, 'failed');
+  assert.match(report.results[100].reason, /503/);
+  assert.equal(report.errors.length, 1);
+  assert.ok(report.errors[0].error instanceof EthoraApiError);
+  assert.equal(report.results[249].xmppUsername, 'app123_u249');
+
+  await assert.rejects(service.updateUsersBulk(users, { retry: false }), EthoraApiError);
+  await assert.rejects(service.updateUsersBulk(users, { chunkSize: 101 }), EthoraValidationError);
+});
+
+test('bulk user creation and deletion chunk, await jobs and resume from a partial report', async () => {
+  const { EthoraBulkOperationError } = require('../dist/errors');
+  const service = new EthoraSDKService();
+  const usersList = Array.from({ length: 5 }, (_, i) => ({
+    uuid: `u${i}`,
+    email: `u${i}@example.com`,
+    firstName: 'Jo',
+    lastName: 'Li',
+  }));
+  const batches = [];
+  let failChunk = 'u2';
+  service.httpClient.request = async (config) => {
+    if (config.method === 'POST') {
+      const uuids = config.data.usersList.map((user) => user.uuid);
+      batches.push(uuids);
+      if (uuids.includes(failChunk)) {
+        return { status: 500, headers: {}, data: { error: 'boom' } };
+      }
+      return { status: 202, headers: {}, data: { jobId: `job-${uuids[0]}`, status: 'pending' } };
+    }
+    const first = config.url.split('/job-')[1];
+    const index = Number(first.slice(1));
+    return {
+      status: 200,
+      headers: {},
+      data: {
+        jobId: `job-${first}`,
+        status: 'completed',
+        results: [
+          { uuid: first, status: 'created' },
+          { uuid: `u${index + 1}`, status: index === 0 ? 'exists' : 'failed', error: 'Invalid email' },
+        ],
+      },
+    };
+  };
+
+  const error = await service
+    .createUsersInAppBulk('app-1', { usersList }, { chunkSize: 2, retry: false, polling: { intervalMs: 1 } })
+    .catch((e) => e);
+  assert.ok(error instanceof EthoraBulkOperationError);
+  assert.deepEqual(error.report.succeeded, ['u0', 'u1']);
+  assert.deepEqual(error.report.failed.map((failure) => failure.id), ['u2', 'u3']);
+  assert.deepEqual(error.report.pending, ['u4']);
+
+  batches.length = 0;
+  failChunk = undefined;
+  const resumed = await service.createUsersInAppBulk(
+    'app-1',
+    { usersList },
+    { chunkSize: 2, resumeFrom: JSON.parse(JSON.stringify(error.report)), polling: { intervalMs: 1 } },
+  );
+  assert.deepEqual(batches, [['u2', 'u3'], ['u4']]);
+  assert.deepEqual(resumed.succeeded, ['u0', 'u1', 'u2', 'u4']);
+  assert.deepEqual(resumed.failed, [{ id: 'u3', reason: 'Invalid email' }]);
+  assert.deepEqual(resumed.pending, []);
+
+  const deleted = [];
+  service.httpClient.request = async (config) => {
+    const ids = config.data.usersIdList;
+    deleted.push(ids);
+    if (ids.includes('gone') && ids.length > 1) {
+      return { status: 404, headers: {}, data: { error: 'Some users not found' } };
+    }
+    if (ids.includes('bad')) {
+      return { status: 403, headers: {}, data: { error: 'forbidden' } };
+    }
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+  const report = await service.deleteUsersInAppBulk('app-1', ['a', 'b', 'gone', 'c', 'bad'], {
+    chunkSize: 3,
+    continueOnError: true,
+    retry: false,
+  });
+  assert.deepEqual(deleted, [['a', 'b', 'gone'], ['a'], ['b'], ['gone'], ['c', 'bad']]);
+  assert.deepEqual(report.succeeded, ['a', 'b', 'gone']);
+  assert.deepEqual(report.failed.map((failure) => failure.id), ['c', 'bad']);
+});
+
+test('bulk user creation reports rows failing with "does not exist" as failed and retries them on resume', async () => {
+  const service = new EthoraSDKService();
+  const usersList = ['u0', 'u1'].map((uuid) => ({ uuid, email: `${uuid}@example.com`, firstName: 'Jo', lastName: 'Li' }));
+  const batches = [];
+  let missingRole = true;
+  service.httpClient.request = async (config) => {
+    const uuids = config.data.usersList.map((user) => user.uuid);
+    batches.push(uuids);
+    const results = uuids.map((uuid) =>
+      missingRole && uuid === 'u1'
+        ? { uuid, status: 'error', error: 'Role editor does not exist' }
+        : { uuid, status: 'created' },
+    );
+    return { status: 200, headers: {}, data: { jobId: 'job-1', status: 'completed', results } };
+  };
+
+  const report = await service.createUsersInAppBulk('app-1', { usersList }, { continueOnError: true });
+  assert.deepEqual(report.succeeded, ['u0']);
+  assert.deepEqual(report.failed, [{ id: 'u1', reason: 'Role editor does not exist' }]);
+
+  missingRole = false;
+  const resumed = await service.createUsersInAppBulk('app-1', { usersList }, { resumeFrom: report });
+  assert.deepEqual(batches.at(-1), ['u1']);
+  assert.deepEqual(resumed.succeeded, ['u0', 'u1']);
+});
+
+test('updateUsers rejects server-managed fields and tag helpers merge with current tags', async () => {
+  const service = new EthoraSDKService();
+  const sent = [];
+  const tags = { app123_a: ['vip', 'beta'], app123_b: [] };
+  service.httpClient.request = async (config) => {
+    if (config.method === 'GET') {
+      const xmppUsername = decodeURIComponent(config.url.split('/').pop());
+      if (!tags[xmppUsername]) {
+        return { status: 404, headers: {}, data: { error: 'User not found' } };
+      }
+      return { status: 200, headers: {}, data: { user: { _id: xmppUsername, tags: tags[xmppUsername] } } };
+    }
+    sent.push(...config.data.users);
+    return {
+      status: 200,
+      headers: {},
+      data: { results: config.data.users.map((user) => ({ xmppUsername: user.xmppUsername, status: 'updated' })) },
+    };
+  };
+
+  const rejected = await service
+    .updateUsers([{ xmppUsername: 'app123_a', resetPasswordToken: 'x', isProfileOpen: true, tags: ['ok', ''] }])
+    .catch((error) => error);
+  assert.ok(rejected instanceof EthoraValidationError);
+  assert.deepEqual(rejected.fields.map((field) => field.path), ['users.0.tags.1', 'users.0.resetPasswordToken']);
+  assert.equal(sent.length, 0);
+
+  await service.updateUsers([{ xmppUsername: 'app123_a', description: 'Hi', isProfileOpen: false, tags: ['x'] }]);
+  assert.deepEqual(sent.pop(), { xmppUsername: 'app123_a', description: 'Hi', isProfileOpen: false, tags: ['x'] });
+
+  const added = await service.addUserTags(['app123_a', 'app123_b', 'app123_missing'], ['beta', 'new']);
+  assert.deepEqual(sent.splice(0), [
+    { xmppUsername: 'app123_a', tags: ['vip', 'beta', 'new'] },
+    { xmppUsername: 'app123_b', tags: ['beta', 'new'] },
+  ]);
+  assert.deepEqual(added.counts, { updated: 2, 'not-found': 1, skipped: 0, failed: 0 });
+
+  await service.removeUserTags(['app123_a'], ['vip']);
+  assert.deepEqual(sent.splice(0), [{ xmppUsername: 'app123_a', tags: ['beta'] }]);
+
+  await service.setUserRoles(['app123_a', 'app123_b'], ['moderator']);
+  assert.deepEqual(sent.map((user) => user.roles), [['moderator'], ['moderator']]);
+});
+
+test('ensure operations create missing resources and reconcile existing ones', async () => {
+  const service = new EthoraSDKService();
+  const calls = [];
+  service.httpClient.request = async (config) => {
+    const url = new URL(config.url);
+    calls.push(`${config.method} ${url.pathname}`);
+    if (config.method === 'POST' && url.pathname === '/v2/users/batch') {
+      return { status: 422, headers: {}, data: 'User already exists' };
+    }
+    if (config.method === 'GET' && url.pathname.startsWith('/v1/apps/users/')) {
+      return { status: 200, headers: {}, data: { user: { _id: 'u1', xmppUsername: 'app123_u1', firstName: 'Old', lastName: 'Name' } } };
+    }
+    if (config.method === 'PATCH' && url.pathname === '/v2/chats/users') {
+      return { status: 200, headers: {}, data: { results: [{ xmppUsername: 'app123_u1', status: 'updated' }] } };
+    }
+    if (config.method === 'POST' && url.pathname === '/v2/chats') {
+      return { status: 409, headers: {}, data: { error: 'exists' } };
+    }
+    if (config.method === 'GET' && url.pathname === '/v2/apps/app123/chats') {
+      return { status: 200, headers: {}, data: firstPage(config, { items: [{ _id: 'c1', name: 'app123_room1@conference.example', title: 'Room' }] }) };
+    }
+    if (config.method === 'GET' && url.pathname === '/v2/chats/users') {
+      assert.equal(url.searchParams.get('chatName'), 'app123_room1');
+      return { status: 200, headers: {}, data: firstPage(config, { items: [{ xmppUsername: 'app123_u1' }] }) };
+    }
+    if (config.method === 'POST' && url.pathname === '/v2/chats/users-access') {
+      assert.deepEqual(config.data.members, ['app123_u2']);
+      return { status: 200, headers: {}, data: { ok: true } };
+    }
+    throw new Error(`Unexpected request ${config.method} ${config.url}`);
+  };
+
+  const user = await service.ensureUser('u1', { firstName: 'Old', lastName: 'Name' });
+  assert.deepEqual([user.created, user.updated, user.resource.xmppUsername], [false, false, 'app123_u1']);
+  assert.ok(!calls.includes('PATCH /v2/chats/users'));
+
+  const drifted = await service.ensureUser('u1', { firstName: 'New', lastName: 'Name' }, { updateOnDrift: true });
+  assert.deepEqual([drifted.created, drifted.updated, drifted.resource.firstName], [false, true, 'New']);
+
+  const room = await service.ensureChatRoom('room1', { title: 'Room' }, { updateOnDrift: true });
+  assert.deepEqual([room.created, room.updated, room.resource.id], [false, false, 'c1']);
+
+  const access = await service.ensureAccess('room1', ['u1', 'u2']);
+  assert.equal(access.created, true);
+  assert.deepEqual(access.resource.granted, ['app123_u2']);
+});
+
+test('ensureUser reads batch rows and ensureChatRoom reports the matching update operation', async () => {
+  const service = new EthoraSDKService();
+  const operations = [];
+  let row = { uuid: 'u1', status: 'error', error: 'User already exists' };
+  service.onRequest(({ operation }) => {
+    operations.push(operation);
+  });
+  service.httpClient.request = async (config) => {
+    const url = new URL(config.url);
+    if (config.method === 'POST' && url.pathname === '/v2/users/batch') {
+      return { status: 200, headers: {}, data: { results: [row] } };
+    }
+    if (config.method === 'GET' && url.pathname.startsWith('/v1/apps/users/')) {
+      return { status: 200, headers: {}, data: { user: { _id: 'u1', xmppUsername: 'app123_u1' } } };
+    }
+    if (config.method === 'POST' && url.pathname === '/v2/chats') {
+      return { status: 409, headers: {}, data: { error: 'exists' } };
+    }
+    if (config.method === 'GET' && url.pathname === '/v2/apps/app123/chats') {
+      return { status: 200, headers: {}, data: firstPage(config, { items: [{ _id: 'c1', name: 'app123_room1', title: 'Old' }] }) };
+    }
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+
+  assert.equal((await service.ensureUser('u1', { firstName: 'Jo', lastName: 'Li' })).created, false);
+
+  row = { uuid: 'u1', status: 'failed', reason: 'Invalid email' };
+  await assert.rejects(service.ensureUser('u1'), /Creating user u1 failed: Invalid email/);
+
+  row = { uuid: 'u1', status: 'created' };
+  assert.equal((await service.ensureUser('u1')).created, true);
+
+  // Another user's row in a shared response is ignored
+  row = { uuid: 'other', status: 'error', error: 'User already exists' };
+  assert.equal((await service.ensureUser('u1')).created, true);
+
+  operations.length = 0;
+  const room = await service.ensureChatRoom('room1', { title: 'New' }, { updateOnDrift: true });
+  assert.equal(room.updated, true);
+  assert.equal(operations.at(-1), 'updateChatRoom');
+});
+
+test('syncRoomMembers plans the membership diff and applies it in chunks', async () => {
+  const service = new EthoraSDKService();
+  const changes = [];
+  service.httpClient.request = async (config) => {
+    if (config.method === 'GET') {
+      return { status: 200, headers: {}, data: firstPage(config, { items: [{ xmppUsername: 'app-1_a' }, { xmppUsername: 'app-1_old' }] }) };
+    }
+    changes.push([config.method, config.data.members]);
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+
+  const plan = await service.syncRoomMembersInApp('app-1', 'room', ['a', 'b', 'c', 'd'], { dryRun: true });
+  assert.deepEqual(plan.toGrant, ['app-1_b', 'app-1_c', 'app-1_d']);
+  assert.deepEqual(plan.toRevoke, ['app-1_old']);
+  assert.deepEqual(plan.unchanged, ['app-1_a']);
+  assert.deepEqual(changes, []);
+
+  const report = await service.syncRoomMembersInApp('app-1', 'room', ['a', 'b', 'c', 'd'], { chunkSize: 2 });
+  assert.deepEqual(changes, [
+    ['POST', ['app-1_b', 'app-1_c']],
+    ['POST', ['app-1_d']],
+    ['DELETE', ['app-1_old']],
+  ]);
+  assert.deepEqual(report.granted, ['app-1_b', 'app-1_c', 'app-1_d']);
+  assert.deepEqual(report.revoked, ['app-1_old']);
+});
+
+test('provisionWorkspace compensates completed steps in reverse order and resumes from a journal', async () => {
+  const service = new EthoraSDKService();
+  const calls = [];
+  let grantFails = true;
+  service.httpClient.request = async (config) => {
+    const path = new URL(config.url).pathname;
+    calls.push(`${config.method} ${path}`);
+    if (config.method === 'POST' && path === '/v2/apps') {
+      return { status: 201, headers: {}, data: { app: { _id: 'new-app' } } };
+    }
+    if (config.method === 'POST' && path.endsWith('/users/batch')) {
+      return {
+        status: 200,
+        headers: {},
+        data: { job: { jobId: 'j1', status: 'completed', results: [
+          { uuid: 'a', status: 'created' },
+          { uuid: 'b', status: 'failed', error: 'User already exists' },
+        ] } },
+      };
+    }
+    if (config.method === 'POST' && path.endsWith('/chats/users-access') && grantFails) {
+      return { status: 500, headers: {}, data: { error: 'boom' } };
+    }
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+  const request = {
+    app: { displayName: 'Acme' },
+    room: { chatId: 'general', title: 'General', type: 'group' },
+    users: [{ userId: 'a', firstName: 'Ann', lastName: 'Lee' }, { userId: 'b' }],
+  };
+
+  const error = await service.provisionWorkspace(request, { retry: false }).catch((caught) => caught);
+  assert.ok(error instanceof EthoraSagaError);
+  assert.deepEqual(
+    error.steps.map((step) => [step.name, step.status]),
+    [['create-app', 'compensated'], ['create-users', 'compensated'], ['create-room', 'compensated'], ['grant-access', 'failed']],
+  );
+  assert.deepEqual(error.steps[1].output, { created: ['a'], existing: ['b'] });
+  assert.deepEqual(calls.slice(-3), [
+    'DELETE /v2/apps/new-app/chats',
+    'DELETE /v2/apps/new-app/users/batch',
+    'DELETE /v2/apps/new-app',
+  ]);
+
+  const journals = [];
+  const interrupted = await service
+    .provisionWorkspace(request, { retry: false, compensate: false, onStep: (steps) => journals.push(steps) })
+    .catch((caught) => caught);
+  assert.equal(interrupted.steps.filter((step) => step.status === 'completed').length, 3);
+
+  grantFails = false;
+  calls.length = 0;
+  const result = await service.provisionWorkspace(request, { resumeFrom: journals.pop() });
+  assert.deepEqual(calls, ['POST /v2/apps/new-app/chats/users-access']);
+  assert.equal(result.appId, 'new-app');
+  assert.equal(result.chatName, 'new-app_general');
+  assert.deepEqual(result.members, ['new-app_a', 'new-app_b']);
+});
+
+test('provisionWorkspace records only the access it grants to an existing room', async () => {
+  const service = new EthoraSDKService();
+  const granted = [];
+  service.httpClient.request = async (config) => {
+    const url = new URL(config.url);
+    if (config.method === 'POST' && url.pathname === '/v2/apps/app-1/chats') {
+      return { status: 409, headers: {}, data: { error: 'exists' } };
+    }
+    if (config.method === 'GET' && url.pathname === '/v2/chats/users') {
+      assert.equal(url.searchParams.get('chatName'), 'app-1_general');
+      return { status: 200, headers: {}, data: firstPage(config, { items: [{ xmppUsername: 'app-1_a' }] }) };
+    }
+    if (config.method === 'POST' && url.pathname.endsWith('/chats/users-access')) {
+      granted.push(config.data.members);
+    }
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+
+  const result = await service.provisionWorkspace({
+    appId: 'app-1',
+    room: { chatId: 'general', title: 'General' },
+    members: ['a', 'b'],
+  });
+  assert.deepEqual(granted, [['app-1_b']]);
+  assert.deepEqual(result.members, ['app-1_a', 'app-1_b']);
+  assert.deepEqual(result.steps.find((step) => step.name === 'grant-access').output, {
+    members: ['app-1_a', 'app-1_b'],
+    granted: ['app-1_b'],
+  });
+});
+
+test('planTenant diffs a manifest against the live app and applyTenant performs only the changes', async () => {
+  const { parseTenantManifest, formatTenantPlan } = require('../dist/index');
+  const service = new EthoraSDKService();
+  const writes = [];
+  const live = {
+    'GET /v2/apps': { items: [{ _id: 'app-1', displayName: 'Acme', primaryColor: '#000' }] },
+    'GET /v1/apps/users/app-1_a': { user: { _id: 'a', xmppUsername: 'app-1_a', firstName: 'Old' } },
+    'GET /v2/apps/app-1/chats': { items: [{ _id: 'c1', name: 'app-1_general', title: 'Lobby' }] },
+    'GET /v2/chats/users': { items: [{ xmppUsername: 'app-1_a' }, { xmppUsername: 'app-1_old' }] },
+    'GET /v2/apps/app-1/bot': { bot: { status: 'on', prompt: 'Be brief' } },
+    'GET /v2/apps/app-1/tokens': { items: [{ _id: 't1', label: 'ci' }, { _id: 't2', label: 'legacy' }] },
+    'POST /v2/apps/app-1/users/batch': { job: { jobId: 'j1', status: 'completed', results: [{ uuid: 'b', status: 'created' }] } },
+    'POST /v2/apps/app-1/tokens': { appToken: { _id: 't3', label: 'backend', token: 'secret' } },
+  };
+  service.httpClient.request = async (config) => {
+    const key = `${config.method} ${new URL(config.url).pathname}`;
+    if (config.method !== 'GET') {
+      writes.push(key);
+    }
+    if (key in live) {
+      return { status: 200, headers: {}, data: firstPage(config, live[key]) };
+    }
+    if (config.method === 'GET') {
+      return { status: 404, headers: {}, data: { error: 'User not found' } };
+    }
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+
+  const manifest = parseTenantManifest(JSON.stringify({
+    app: { displayName: 'Acme', primaryColor: '#fff' },
+    users: [{ userId: 'a', firstName: 'Ann', lastName: 'Lee' }, { userId: 'b', firstName: 'Bob', lastName: 'Stone' }],
+    rooms: [{ chatId: 'general', title: 'General', members: ['a', 'b'] }],
+    bot: { status: 'on', prompt: 'Be helpful' },
+    tokens: ['ci', 'backend'],
+  }));
+
+  const plan = await service.planTenant(manifest, { prune: true });
+  assert.equal(plan.appId, 'app-1');
+  assert.deepEqual(
+    plan.changes.map((change) => `${change.action} ${change.resource} ${change.id}`),
+    [
+      'update user a',
+      'create user b',
+      'update room general',
+      'update bot bot',
+      'create token backend',
+      'delete token legacy',
+      'create membership general',
+      'delete membership general',
+    ],
+  );
+  const text = formatTenantPlan(plan);
+  assert.match(text, /^Plan for app app-1: 3 to create, 3 to update, 2 to delete/);
+  assert.match(text, /~ room general\n {6}title: "Lobby" -> "General"/);
+  assert.match(text, /- membership general: old/);
+  assert.match(text, /! app app-1 differs in primaryColor/);
+
+  const result = await service.applyTenant(manifest);
+  assert.deepEqual(writes, [
+    'POST /v2/apps/app-1/users/batch',
+    'PATCH /v2/chats/users',
+    'PATCH /v2/apps/app-1/chats/app-1_general',
+    'PUT /v2/apps/app-1/bot',
+    'POST /v2/apps/app-1/tokens',
+    'POST /v2/apps/app-1/chats/users-access',
+  ]);
+  assert.equal(result.createdTokens[0].token, 'secret');
+
+  assert.throws(
+    () => parseTenantManifest({ app: { displayName: 'X' }, tokens: ['a', 'a'], room: [] }),
+    (error) => error instanceof EthoraValidationError && error.fields.map((field) => field.path).join() === 'room',
+  );
+  assert.throws(() => parseTenantManifest('app:\n  displayName: X'), /pass `parseYaml`/);
+});
+
+test('planTenant plans a new app when the manifest app ID does not exist', async () => {
+  const service = new EthoraSDKService();
+  service.httpClient.request = async () => ({ status: 404, headers: {}, data: { error: 'App not found' } });
+
+  const plan = await service.planTenant({ app: { id: 'gone', displayName: 'Acme' }, users: [{ userId: 'a' }] });
+  assert.equal(plan.appId, undefined);
+  assert.deepEqual(plan.changes.map(({ action, resource, id }) => `${action} ${resource} ${id}`), [
+    'create app Acme',
+    'create user a',
+  ]);
+  assert.match(plan.warnings[0], /app gone does not exist/);
+});
+
+test('planTenant reads every live room, past the collectAll cap', async () => {
+  const { DEFAULT_MAX_ITEMS } = require('../dist/index');
+  const service = new EthoraSDKService();
+  const rooms = Array.from({ length: DEFAULT_MAX_ITEMS + 1 }, (_, i) => ({ _id: `c${i}`, name: `app-1_room${i}`, title: `Room ${i}` }));
+  service.httpClient.request = async (config) => {
+    const url = new URL(config.url);
+    if (url.pathname === '/v2/apps/app-1/chats') {
+      const offset = Number(url.searchParams.get('offset'));
+      return { status: 200, headers: {}, data: { items: rooms.slice(offset, offset + Number(url.searchParams.get('limit'))) } };
+    }
+    if (url.pathname === '/v2/apps/app-1') {
+      return { status: 200, headers: {}, data: { app: { _id: 'app-1', displayName: 'Acme' } } };
+    }
+    return { status: 200, headers: {}, data: { items: [] } };
+  };
+
+  const plan = await service.planTenant({
+    app: { id: 'app-1', displayName: 'Acme' },
+    rooms: [{ chatId: `room${DEFAULT_MAX_ITEMS}`, title: `Room ${DEFAULT_MAX_ITEMS}` }],
+  });
+  assert.deepEqual(plan.changes, []);
+});
+
+test('exportApp snapshots an app and importApp restores it into another app with remapped IDs', async () => {
+  const { APP_SNAPSHOT_VERSION } = require('../dist/index');
+  const service = new EthoraSDKService();
+  const writes = [];
+  const responses = {
+    'GET /v2/apps/app-1': { app: { _id: 'app-1', displayName: 'Acme', primaryColor: '#000', createdAt: 'x' } },
+    'GET /v2/apps/app-1/chats': {
+      items: [{ _id: 'c1', name: 'app-1_general@conference.example', title: 'General', members: ['app-1_a'] }],
+    },
+    'GET /v2/chats/users': { items: [{ xmppUsername: 'app-1_a', firstName: 'Ann', lastName: 'Lee', roles: ['admin'], token: 't' }] },
+    'GET /v2/apps/app-1/bot': { bot: { status: 'on', chatId: 'app-1_general', internal: true } },
+    'GET /v2/apps/app-1/tokens': { items: [{ _id: 't1', label: 'ci' }, { _id: 't2', label: 'old', revokedAt: 'x' }] },
+    'GET /v2/apps/app-2': { app: { _id: 'app-2', displayName: 'Acme staging' } },
+    'POST /v2/apps/app-2/users/batch': { job: { jobId: 'j1', status: 'completed' } },
+    'POST /v2/apps/app-2/tokens': { appToken: { _id: 't9', label: 'ci', token: 'new-secret' } },
+  };
+  service.httpClient.request = async (config) => {
+    const key = `${config.method} ${new URL(config.url).pathname}`;
+    if (config.method !== 'GET') {
+      writes.push([key, config.data]);
+    }
+    if (key in responses) {
+      return { status: 200, headers: {}, data: firstPage(config, responses[key]) };
+    }
+    if (config.method === 'GET') {
+      return { status: 200, headers: {}, data: key.includes('/users/') ? {} : { items: [] } };
+    }
+    return { status: 200, headers: {}, data: { ok: true } };
+  };
+
+  const snapshot = await service.exportApp('app-1');
+  assert.equal(snapshot.version, APP_SNAPSHOT_VERSION);
+  assert.deepEqual(snapshot.app, { displayName: 'Acme', primaryColor: '#000' });
+  assert.deepEqual(snapshot.rooms, [{ chatId: 'general', title: 'General', members: ['a'] }]);
+  assert.deepEqual(snapshot.users, [{ userId: 'a', firstName: 'Ann', lastName: 'Lee', roles: ['admin'] }]);
+  assert.deepEqual(snapshot.bot, { status: 'on', chatId: 'app-1_general' });
+  assert.deepEqual(snapshot.tokens, ['ci']);
+
+  // The restored app has none of the snapshot's users and rooms yet
+  service.httpClient.request = ((request) => async (config) => {
+    if (config.method === 'GET' && config.url.includes('/v1/apps/users/')) {
+      return { status: 404, headers: {}, data: { error: 'User not found' } };
+    }
+    return request(config);
+  })(service.httpClient.request);
+
+  const restored = await service.importApp(JSON.parse(JSON.stringify(snapshot)), {
+    targetAppId: 'app-2',
+    remapIds: (id) => `stg-${id}`,
+  });
+  assert.equal(restored.appId, 'app-2');
+  assert.deepEqual(writes.map(([key]) => key), [
+    'POST /v2/apps/app-2/users/batch',
+    'POST /v2/apps/app-2/chats',
+    'PUT /v2/apps/app-2/bot',
+    'POST /v2/apps/app-2/tokens',
+    'POST /v2/apps/app-2/chats/users-access',
+    'PATCH /v2/chats/users',
+  ]);
+  assert.equal(writes[0][1].usersList[0].uuid, 'stg-a');
+  assert.match(writes[0][1].usersList[0].password, /^[\w-]{32}$/);
+  assert.equal(writes[1][1].uuid, 'stg-general');
+  assert.equal(writes[2][1].chatId, 'app-2_stg-general');
+  assert.deepEqual(writes[4][1].members, ['app-2_stg-a']);
+  assert.deepEqual(writes[5][1].users, [{ xmppUsername: 'app-2_stg-a', roles: ['admin'] }]);
+
+  await assert.rejects(service.importApp({ ...snapshot, version: 99 }), EthoraValidationError);
+});
+
+test('exportApp snapshots every room, past the collectAll cap', async () => {
+  const { DEFAULT_MAX_ITEMS } = require('../dist/index');
+  const service = new EthoraSDKService();
+  const rooms = Array.from({ length: DEFAULT_MAX_ITEMS + 1 }, (_, i) => ({ _id: `c${i}`, name: `app123_room${i}`, members: [] }));
+  service.httpClient.request = async (config) => {
+    const url = new URL(config.url);
+    if (url.pathname === '/v2/apps/app123/chats') {
+      const offset = Number(url.searchParams.get('offset'));
+      return { status: 200, headers: {}, data: { items: rooms.slice(offset, offset + Number(url.searchParams.get('limit'))) } };
+    }
+    if (url.pathname === '/v2/apps/app123') {
+      return { status: 200, headers: {}, data: { app: { _id: 'app123', displayName: 'Acme' } } };
+    }
+    return { status: 200, headers: {}, data: { items: [] } };
+  };
+
+  const snapshot = await service.exportApp('app123');
+  assert.equal(snapshot.rooms.length, DEFAULT_MAX_ITEMS + 1);
+  assert.equal(snapshot.rooms.at(-1).chatId, `room${DEFAULT_MAX_ITEMS}`);
+});
+
+test('JWTs carry registered claims and expire according to the configured TTLs', () => {
+  const jwt = require('jsonwebtoken');
+  const { createServerToken, verifyJwtToken, DEFAULT_TOKEN_ISSUER, DEFAULT_TOKEN_TTL } = require('../dist/index');
+  const service = new EthoraSDKService({ tokens: { client: { expiresIn: '2h', audience: 'chat' } } });
+
+  const client = jwt.decode(service.createChatUserJwtToken('user-1'));
+  assert.equal(client.exp - client.iat, 2 * 60 * 60);
+  assert.equal(client.nbf, client.iat);
+  assert.equal(client.iss, DEFAULT_TOKEN_ISSUER);
+  assert.equal(client.aud, 'chat');
+  assert.match(client.jti, /^[0-9a-f-]{36}$/);
+  assert.equal(client.data.userId, 'user-1');
+
+  const refreshed = jwt.decode(service.createChatUserJwtToken('user-1', { expiresIn: 60 }));
+  assert.equal(refreshed.exp - refreshed.iat, 60);
+  assert.notEqual(refreshed.jti, client.jti);
+
+  const server = jwt.decode(createServerToken());
+  assert.equal(server.exp - server.iat, DEFAULT_TOKEN_TTL.server);
+  assert.equal(server.aud, 'app123');
+
+  const expired = service.createChatUserJwtToken('user-1', { expiresIn: -60 });
+  assert.throws(() => verifyJwtToken(expired), /JWT token expired/);
+  assert.equal(verifyJwtToken(expired, { clockToleranceSec: 120 }).data.userId, 'user-1');
+  assert.throws(() => verifyJwtToken(service.createChatUserJwtToken('user-1'), { audience: 'other' }), /Invalid JWT token/);
+});
+
+test('instances with their own app secret sign with it and rotate keys independently', () => {
+  const jwt = require('jsonwebtoken');
+  const { execFileSync } = require('node:child_process');
+  const { JwtKeyring, getDefaultKeyring, verifyJwtToken } = require('../dist/index');
+  const a = new EthoraSDKService({ chatAppId: 'app-a', chatAppSecret: 'secret-a' });
+  const b = new EthoraSDKService({ chatAppId: 'app-b', chatAppSecret: 'secret-b' });
+  assert.notEqual(a.getKeyring(), b.getKeyring());
+  assert.notEqual(a.getKeyring(), getDefaultKeyring());
+
+  a.getKeyring().addKey('ka', 'rotated-a', { activate: true });
+  assert.equal(jwt.decode(a.createChatUserJwtToken('u1'), { complete: true }).header.kid, 'ka');
+  const tokenB = b.createChatUserJwtToken('u1');
+  assert.equal(jwt.decode(tokenB, { complete: true }).header.kid, undefined);
+  assert.equal(verifyJwtToken(tokenB, { keyring: new JwtKeyring([{ kid: 'b', secret: 'secret-b' }]) }).data.userId, 'u1');
+
+  // The env keyring is read once per process, so it is checked in a fresh one
+  const script = `
+    const { EthoraSDKService } = require('./dist/repositories/EthoraSDKService');
+    const header = (service) => JSON.parse(Buffer.from(service.createChatUserJwtToken('u1').split('.')[0], 'base64url'));
+    console.log(JSON.stringify([header(new EthoraSDKService()).kid, header(new EthoraSDKService({ chatAppId: 'other', chatAppSecret: 'other-secret' })).kid]));
+  `;
+  const output = execFileSync(process.execPath, ['-e', script], {
+    cwd: require('node:path').join(__dirname, '..'),
+    env: { ...process.env, ETHORA_CHAT_APP_SECRETS: 'k1:env-secret', ETHORA_LOG_LEVEL: 'error' },
+  });
+  assert.deepEqual(JSON.parse(output.toString().trim().split('\n').pop()), ['k1', null]);
+});
+
+test('keyring signs with the active key ID and verifies tokens of every non-retired key', () => {
+  const jwt = require('jsonwebtoken');
+  const { JwtKeyring, verifyJwtToken } = require('../dist/index');
+  const keyring = new JwtKeyring([{ kid: 'k1', secret: 'first-secret' }]);
+  const service = new EthoraSDKService({ keyring });
+  assert.equal(service.getKeyring(), keyring);
+
+  const oldToken = service.createChatUserJwtToken('user-1');
+  assert.equal(jwt.decode(oldToken, { complete: true }).header.kid, 'k1');
+
+  keyring.addKey('k2', 'second-secret');
+  assert.equal(jwt.decode(service.createChatUserJwtToken('user-1'), { complete: true }).header.kid, 'k1');
+  keyring.activateKey('k2');
+  const newToken = service.createChatUserJwtToken('user-1');
+  assert.equal(jwt.decode(newToken, { complete: true }).header.kid, 'k2');
+  assert.deepEqual(keyring.listKeys(), [
+    { kid: 'k1', status: 'verify-only' },
+    { kid: 'k2', status: 'active' },
+  ]);
+
+  assert.equal(verifyJwtToken(oldToken, { keyring }).data.userId, 'user-1');
+  assert.equal(verifyJwtToken(newToken, { keyring }).data.userId, 'user-1');
+  keyring.retireKey('k1');
+  assert.throws(() => verifyJwtToken(oldToken, { keyring }), /Invalid JWT token/);
+  assert.throws(() => keyring.retireKey('k2'), /is active/);
+
+  // Tokens without `kid` keep using the app secret
+  const legacy = new EthoraSDKService({ keyring: new JwtKeyring() }).createChatUserJwtToken('user-1');
+  assert.equal(jwt.decode(legacy, { complete: true }).header.kid, undefined);
+  assert.equal(verifyJwtToken(legacy, { keyring }).data.userId, 'user-1');
+
+  // Tokens issued before the first rotation carry no `kid` and stay valid while their secret is a non-retired key
+  const preRotation = new EthoraSDKService({ chatAppSecret: 'old-secret', keyring: new JwtKeyring() }).createChatUserJwtToken('user-1');
+  const migrated = new JwtKeyring([{ kid: 'k2', secret: 'new-secret' }, { kid: 'k1', secret: 'old-secret' }]);
+  assert.equal(verifyJwtToken(preRotation, { keyring: migrated }).data.userId, 'user-1');
+  migrated.retireKey('k1');
+  assert.throws(() => verifyJwtToken(preRotation, { keyring: migrated }), /Invalid JWT token/);
+
+  assert.deepEqual(JwtKeyring.fromString(' a:x, b:y:z ').listKeys(), [
+    { kid: 'a', status: 'active' },
+    { kid: 'b', status: 'verify-only' },
+  ]);
+  assert.throws(() => JwtKeyring.fromString('a:x,secret-without-kid'), (error) => {
+    assert.match(error.message, /entry #2/);
+    assert.doesNotMatch(error.message, /secret-without-kid/);
+    return true;
+  });
+});